@@ -4,6 +4,7 @@ import { WagmiProvider } from 'wagmi';
 import { QueryClientProvider, QueryClient } from '@tanstack/react-query';
 import { config } from './wagmi';
 import Dashboard from './components/Dashboard';
+import VaultProvider from './components/VaultProvider';
 
 const queryClient = new QueryClient();
 
@@ -13,7 +14,9 @@ function App() {
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider>
           <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
-            <Dashboard />
+            <VaultProvider>
+              <Dashboard />
+            </VaultProvider>
           </div>
         </RainbowKitProvider>
       </QueryClientProvider>
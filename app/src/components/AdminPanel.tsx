@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react';
+import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useQueryClient } from '@tanstack/react-query';
+import { isAddress, type Abi } from 'viem';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import VaultABI from '../contracts/Yield4GoodVault.json';
+import UpgradeableVaultABI from '../contracts/Yield4GoodVaultUpgradeable.json';
+import { parseAmount, useVaultDecimals } from '../hooks/use-vault-decimals';
+import { useSelectedVault } from '../hooks/use-selected-vault';
+
+export interface PendingChangeSummary {
+  changeType: number;
+  label: string;
+  description: string;
+  newValue: `0x${string}`;
+  secondsLeft: number;
+}
+
+interface AdminField {
+  label: string;
+  placeholder: string;
+  kind: 'address' | 'amount';
+}
+
+interface AdminActionProps {
+  title: string;
+  description: string;
+  functionName: string;
+  abi?: Abi;
+  fields?: AdminField[];
+  buildArgs?: (values: string[], assetDecimals: number) => readonly unknown[];
+  confirmMessage: (values: string[]) => string;
+  submitLabel: string;
+  variant?: 'default' | 'outline' | 'destructive';
+  disabled?: boolean;
+}
+
+function validateField(field: AdminField, value: string, assetDecimals: number | undefined): string | undefined {
+  if (!value) return undefined;
+  if (field.kind === 'address') {
+    return isAddress(value) ? undefined : 'Not a valid address';
+  }
+  const amount = parseAmount(value, assetDecimals);
+  if (amount === undefined) return 'Not a valid amount';
+  return amount > 0n ? undefined : 'Amount must be greater than zero';
+}
+
+function useVaultWrite() {
+  const queryClient = useQueryClient();
+  const { writeContract, data: hash, isPending, error: writeError, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess, error: receiptError } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (isSuccess) queryClient.invalidateQueries();
+  }, [isSuccess, queryClient]);
+
+  const error = writeError ?? receiptError;
+  const status = isPending
+    ? 'Confirm in your wallet...'
+    : isConfirming
+      ? 'Waiting for confirmation...'
+      : isSuccess
+        ? 'Transaction confirmed'
+        : error
+          ? (error as { shortMessage?: string }).shortMessage ?? error.message
+          : undefined;
+
+  return { writeContract, reset, busy: isPending || isConfirming, status, failed: !!error };
+}
+
+function TxStatus({ status, failed }: { status?: string; failed: boolean }) {
+  if (!status) return null;
+  return <p className={`text-xs ${failed ? 'text-red-600' : 'text-muted-foreground'}`}>{status}</p>;
+}
+
+function AdminAction({
+  title,
+  description,
+  functionName,
+  abi = VaultABI as Abi,
+  fields = [],
+  buildArgs,
+  confirmMessage,
+  submitLabel,
+  variant = 'default',
+  disabled = false,
+}: AdminActionProps) {
+  const [values, setValues] = useState<string[]>(() => fields.map(() => ''));
+  const [confirming, setConfirming] = useState(false);
+  const { writeContract, reset, busy, status, failed } = useVaultWrite();
+  const { vault } = useSelectedVault();
+  const { assetDecimals } = useVaultDecimals();
+
+  const errors = fields.map((field, i) => validateField(field, values[i], assetDecimals));
+  const isValid = fields.every((_, i) => values[i] && !errors[i]);
+
+  const handleConfirm = () => {
+    reset();
+    writeContract({
+      address: vault,
+      abi,
+      functionName,
+      args: buildArgs ? buildArgs(values, assetDecimals!) : [],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm font-medium">{title}</p>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      {fields.map((field, i) => (
+        <div key={field.label} className="space-y-1">
+          <Input
+            type={field.kind === 'amount' ? 'number' : 'text'}
+            placeholder={field.placeholder}
+            aria-label={field.label}
+            value={values[i]}
+            onChange={(e) => setValues((prev) => prev.map((v, j) => (j === i ? e.target.value.trim() : v)))}
+            disabled={busy}
+          />
+          {errors[i] && <p className="text-xs text-red-600">{errors[i]}</p>}
+        </div>
+      ))}
+      <Button
+        size="sm"
+        variant={variant}
+        className="w-full"
+        onClick={() => setConfirming(true)}
+        disabled={disabled || busy || !isValid}
+      >
+        {busy ? 'Processing...' : submitLabel}
+      </Button>
+      <TxStatus status={status} failed={failed} />
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{title}</AlertDialogTitle>
+            <AlertDialogDescription className="break-all">{confirmMessage(values)}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>Confirm</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function PauseToggle() {
+  const [confirming, setConfirming] = useState(false);
+  const { writeContract, reset, busy, status, failed } = useVaultWrite();
+  const { vault } = useSelectedVault();
+
+  const { data: paused } = useReadContract({
+    address: vault,
+    abi: VaultABI,
+    functionName: 'paused',
+  });
+
+  const isPaused = paused === true;
+
+  const handleConfirm = () => {
+    reset();
+    writeContract({
+      address: vault,
+      abi: VaultABI,
+      functionName: 'setPaused',
+      args: [!isPaused],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">Pause vault</p>
+          <p className="text-xs text-muted-foreground">Blocks deposits and harvests. Withdrawals stay open.</p>
+        </div>
+        <Switch
+          checked={isPaused}
+          onCheckedChange={() => setConfirming(true)}
+          disabled={busy || paused === undefined}
+          aria-label="Pause vault"
+        />
+      </div>
+      <TxStatus status={status} failed={failed} />
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{isPaused ? 'Unpause vault' : 'Pause vault'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isPaused
+                ? 'Deposits and harvests will be accepted again.'
+                : 'New deposits and harvests will revert until the vault is unpaused.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>Confirm</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+interface ChangeAction {
+  execute: string;
+  role: string;
+  abi?: Abi;
+  buildArgs?: (change: PendingChangeSummary) => readonly unknown[];
+}
+
+// Execute and cancel functions per ChangeType, with the role that may execute.
+// Upgrades only exist on proxied vaults and run through UUPS upgradeToAndCall.
+const CHANGE_ACTIONS: Record<number, ChangeAction> = {
+  0: { execute: 'executeBeneficiary', role: 'Beneficiary Manager' },
+  1: { execute: 'executeDonationRouter', role: 'Beneficiary Manager' },
+  2: { execute: 'executeStrategyMigration', role: 'Strategist' },
+  3: { execute: 'executeTimelockDelay', role: 'Admin' },
+  4: {
+    execute: 'upgradeToAndCall',
+    role: 'Admin',
+    abi: UpgradeableVaultABI as Abi,
+    buildArgs: (change) => [change.newValue, '0x'],
+  },
+  5: { execute: 'executeStrategyAllocation', role: 'Strategist' },
+};
+
+interface AdminPanelProps {
+  heldRoles: string[];
+  pendingChanges: PendingChangeSummary[];
+}
+
+export default function AdminPanel({ heldRoles, pendingChanges }: AdminPanelProps) {
+  const has = (role: string) => heldRoles.includes(role);
+  const { assetSymbol = 'assets' } = useVaultDecimals();
+
+  return (
+    <div className="space-y-6">
+      {pendingChanges.map((change) => {
+        const { execute, role, abi, buildArgs } = CHANGE_ACTIONS[change.changeType];
+        const canCancel = has(role) || has('Guardian');
+        if (!has(role) && !canCancel) return null;
+        return (
+          <div key={change.changeType} className="space-y-2">
+            {has(role) && (
+              <AdminAction
+                title={`Execute ${change.label.toLowerCase()} change`}
+                description={`${change.description} (${change.secondsLeft > 0 ? 'timelock pending' : 'ready'})`}
+                functionName={execute}
+                abi={abi}
+                buildArgs={buildArgs && (() => buildArgs(change))}
+                confirmMessage={() => `Apply the queued ${change.label.toLowerCase()} change: ${change.description}`}
+                submitLabel="Execute"
+                disabled={change.secondsLeft > 0}
+              />
+            )}
+            {canCancel && (
+              <AdminAction
+                title={`Cancel ${change.label.toLowerCase()} change`}
+                description="Drop the queued change before it executes"
+                functionName="cancelChange"
+                buildArgs={() => [change.changeType]}
+                confirmMessage={() => `Cancel the queued ${change.label.toLowerCase()} change: ${change.description}`}
+                submitLabel="Cancel Change"
+                variant="outline"
+              />
+            )}
+          </div>
+        );
+      })}
+
+      {has('Guardian') && <PauseToggle />}
+
+      {has('Beneficiary Manager') && (
+        <>
+          <AdminAction
+            title="Change beneficiary"
+            description="Queued behind the timelock before it takes effect"
+            functionName="queueBeneficiary"
+            fields={[{ label: 'Beneficiary address', placeholder: '0x...', kind: 'address' }]}
+            buildArgs={([beneficiary]) => [beneficiary]}
+            confirmMessage={([beneficiary]) => `Queue ${beneficiary} as the new beneficiary?`}
+            submitLabel="Queue Beneficiary"
+          />
+          <AdminAction
+            title="Change donation router"
+            description="Queued behind the timelock before it takes effect"
+            functionName="queueDonationRouter"
+            fields={[{ label: 'Router address', placeholder: '0x...', kind: 'address' }]}
+            buildArgs={([router]) => [router]}
+            confirmMessage={([router]) => `Queue ${router} as the new donation router?`}
+            submitLabel="Queue Router"
+          />
+        </>
+      )}
+
+      {has('Strategist') && (
+        <>
+          <AdminAction
+            title="Migrate strategy"
+            description="The new strategy must be owned by the vault before execution"
+            functionName="queueStrategyMigration"
+            fields={[
+              { label: 'Current strategy', placeholder: 'Current strategy 0x...', kind: 'address' },
+              { label: 'New strategy', placeholder: 'New strategy 0x...', kind: 'address' },
+            ]}
+            buildArgs={([oldStrategy, newStrategy]) => [oldStrategy, newStrategy]}
+            confirmMessage={([oldStrategy, newStrategy]) =>
+              `Queue a migration of all funds from ${oldStrategy} to ${newStrategy}?`
+            }
+            submitLabel="Queue Migration"
+          />
+          <AdminAction
+            title="Emergency divest"
+            description="Pull funds from strategies back into the vault"
+            functionName="emergencyDivest"
+            fields={[{ label: `Amount (${assetSymbol})`, placeholder: `Amount (${assetSymbol})`, kind: 'amount' }]}
+            buildArgs={([amount], decimals) => [parseAmount(amount, decimals)]}
+            confirmMessage={([amount]) => `Divest ${amount} ${assetSymbol} from strategies into the vault?`}
+            submitLabel="Emergency Divest"
+            variant="destructive"
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,145 +1,492 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useWatchContractEvent } from 'wagmi';
-import { formatUnits, parseUnits } from 'viem';
+import { useAccount, useBalance, useReadContract, useReadContracts, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { formatUnits, keccak256, maxUint256, toBytes, zeroHash, type Abi } from 'viem';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Alert, AlertDescription } from './ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { TrendingUp, Wallet, Heart, ArrowDownToLine, ArrowUpFromLine, Sparkles } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { Switch } from './ui/switch';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from './ui/pagination';
+import AdminPanel, { type PendingChangeSummary } from './AdminPanel';
+import VaultAnalytics from './VaultAnalytics';
+import VaultPicker from './VaultPicker';
+import { useDonationHistory } from '../hooks/use-donation-history';
+import { parseAmount, useVaultDecimals } from '../hooks/use-vault-decimals';
+import { usePermit } from '../hooks/use-permit';
+import { useSelectedVault } from '../hooks/use-selected-vault';
+import { useDeployment } from '../hooks/use-deployment';
+import { TrendingUp, Wallet, Heart, HeartHandshake, ArrowDownToLine, ArrowUpFromLine, Sparkles } from 'lucide-react';
 import VaultABI from '../contracts/Yield4GoodVault.json';
 import ERC20ABI from '../contracts/MockERC20.json';
-import RouterABI from '../contracts/DonationRouter.json';
+import SplitRouterABI from '../contracts/SplitDonationRouter.json';
+import DonorProofABI from '../contracts/DonorProofNFT.json';
+import GatewayABI from '../contracts/ETHGateway.json';
 
-const VAULT_ADDRESS = import.meta.env.VITE_VAULT_ADDRESS as `0x${string}`;
-const ASSET_ADDRESS = import.meta.env.VITE_ASSET_ADDRESS as `0x${string}`;
-const ROUTER_ADDRESS = import.meta.env.VITE_ROUTER_ADDRESS as `0x${string}`;
 
-interface DonationEvent {
-  amount: string;
-  beneficiary: string;
-  timestamp: number;
-  txHash: string;
+const VAULT_ROLES = [
+  { name: 'Admin', id: zeroHash },
+  { name: 'Guardian', id: keccak256(toBytes('GUARDIAN_ROLE')) },
+  { name: 'Strategist', id: keccak256(toBytes('STRATEGIST_ROLE')) },
+  { name: 'Beneficiary Manager', id: keccak256(toBytes('BENEFICIARY_MANAGER_ROLE')) },
+  { name: 'Keeper', id: keccak256(toBytes('KEEPER_ROLE')) },
+];
+
+// Indexed by the vault's ChangeType enum
+const PENDING_CHANGE_TYPES = [
+  'Beneficiary',
+  'Donation router',
+  'Strategy migration',
+  'Timelock delay',
+  'Upgrade',
+  'Strategy allocation',
+];
+
+type PendingChange = readonly [`0x${string}`, `0x${string}`, bigint, bigint];
+
+function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return 'ready to execute';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `executable in ${days > 0 ? `${days}d ` : ''}${hours}h ${minutes}m ${seconds % 60}s`;
+}
+
+function PreviewSummary({ rows }: { rows: [string, string][] }) {
+  return (
+    <div className="rounded-md border p-3 space-y-1 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-medium">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CertificateMetadata {
+  name: string;
+  image: string;
+}
+
+function decodeTokenURI(uri: string): CertificateMetadata | undefined {
+  const prefix = 'data:application/json;base64,';
+  if (!uri.startsWith(prefix)) return undefined;
+  try {
+    return JSON.parse(atob(uri.slice(prefix.length)));
+  } catch {
+    return undefined;
+  }
+}
+
+const DONATIONS_PER_PAGE = 5;
+
+// First, last and the pages around the current one, with null marking a gap
+function pageWindow(current: number, total: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
 }
 
 export default function Dashboard() {
   const { address, isConnected, chain } = useAccount();
+  const { vault: vaultAddress, asset: assetAddress, router: routerAddress } = useSelectedVault();
+  const { contracts } = useDeployment();
+  // The certificates are deployed for the manifest's standalone vault only
+  const donorNftAddress =
+    contracts.Yield4GoodVault?.toLowerCase() === vaultAddress?.toLowerCase() ? contracts.DonorProofNFT : undefined;
+  const gatewayAddress = contracts.ETHGateway;
   const [depositAmount, setDepositAmount] = useState('');
+  const [depositMode, setDepositMode] = useState<'assets' | 'shares'>('assets');
+  const [depositEth, setDepositEth] = useState(false);
   const [withdrawAmount, setWithdrawAmount] = useState('');
-  const [donations, setDonations] = useState<DonationEvent[]>([]);
+  const [withdrawMode, setWithdrawMode] = useState<'assets' | 'shares'>('assets');
+  const [donationPage, setDonationPage] = useState(1);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { assetDecimals, shareDecimals, assetSymbol = 'assets' } = useVaultDecimals();
+  const formatAssets = (amount: unknown) =>
+    amount !== undefined && assetDecimals !== undefined ? formatUnits(amount as bigint, assetDecimals) : '0';
+  const formatShares = (amount: unknown) =>
+    amount !== undefined && shareDecimals !== undefined ? formatUnits(amount as bigint, shareDecimals) : '0';
 
   const { data: totalAssets } = useReadContract({
-    address: VAULT_ADDRESS,
+    address: vaultAddress,
     abi: VaultABI,
     functionName: 'totalAssets',
   });
 
   const { data: totalDonated } = useReadContract({
-    address: VAULT_ADDRESS,
+    address: vaultAddress,
     abi: VaultABI,
     functionName: 'totalDonated',
   });
 
+  const { data: pendingDonation } = useReadContract({
+    address: vaultAddress,
+    abi: VaultABI,
+    functionName: 'pendingDonation',
+  });
+
   const { data: userShares } = useReadContract({
-    address: VAULT_ADDRESS,
+    address: vaultAddress,
     abi: VaultABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
   });
 
   const { data: userAssets } = useReadContract({
-    address: VAULT_ADDRESS,
+    address: vaultAddress,
     abi: VaultABI,
     functionName: 'convertToAssets',
     args: userShares ? [userShares] : undefined,
   });
 
+  const { data: userDonated } = useReadContract({
+    address: vaultAddress,
+    abi: VaultABI,
+    functionName: 'donatedBy',
+    args: address ? [address] : undefined,
+  });
+
+  const { data: certificateId } = useReadContract({
+    address: donorNftAddress,
+    abi: DonorProofABI,
+    functionName: 'tokenOf',
+    args: address ? [address] : undefined,
+  });
+
+  const hasCertificate = certificateId !== undefined && (certificateId as bigint) > 0n;
+
+  const { data: certificate } = useReadContract({
+    address: donorNftAddress,
+    abi: DonorProofABI,
+    functionName: 'certificates',
+    args: hasCertificate ? [certificateId] : undefined,
+  });
+
+  const { data: certificateURI } = useReadContract({
+    address: donorNftAddress,
+    abi: DonorProofABI,
+    functionName: 'tokenURI',
+    args: hasCertificate ? [certificateId] : undefined,
+  });
+
+  const { data: claimableTier } = useReadContract({
+    address: donorNftAddress,
+    abi: DonorProofABI,
+    functionName: 'claimableTier',
+    args: address ? [address] : undefined,
+  });
+
+  const { data: depositCapacity } = useReadContract({
+    address: vaultAddress,
+    abi: VaultABI,
+    functionName: 'maxDeposit',
+    args: address ? [address] : undefined,
+  });
+
+  const { data: maxWithdrawable } = useReadContract({
+    address: vaultAddress,
+    abi: VaultABI,
+    functionName: 'maxWithdraw',
+    args: address ? [address] : undefined,
+  });
+
+  const { data: maxRedeemable } = useReadContract({
+    address: vaultAddress,
+    abi: VaultABI,
+    functionName: 'maxRedeem',
+    args: address ? [address] : undefined,
+  });
+
+  const { data: assetBalance } = useReadContract({
+    address: assetAddress,
+    abi: ERC20ABI,
+    functionName: 'balanceOf',
+    args: address ? [address] : undefined,
+  });
+
+  const { data: ethBalance } = useBalance({ address });
+
+  // A gateway is bound to one WETH vault; its constructor rejects any other asset
+  const { data: gatewayVault } = useReadContract({
+    address: gatewayAddress,
+    abi: GatewayABI,
+    functionName: 'vault',
+    query: { enabled: !!gatewayAddress },
+  });
+  const supportsEth = typeof gatewayVault === 'string' && gatewayVault.toLowerCase() === vaultAddress.toLowerCase();
+
   const { data: allowance } = useReadContract({
-    address: ASSET_ADDRESS,
+    address: assetAddress,
     abi: ERC20ABI,
     functionName: 'allowance',
-    args: address && VAULT_ADDRESS ? [address, VAULT_ADDRESS] : undefined,
+    args: address ? [address, vaultAddress] : undefined,
   });
 
   const { data: beneficiary } = useReadContract({
-    address: VAULT_ADDRESS,
+    address: vaultAddress,
     abi: VaultABI,
     functionName: 'beneficiary',
   });
 
-  const { data: owner } = useReadContract({
-    address: VAULT_ADDRESS,
+  const { data: routerSplits } = useReadContract({
+    address: routerAddress,
+    abi: SplitRouterABI,
+    functionName: 'getSplits',
+  });
+
+  // A split change redirects donations, so it is announced like a vault timelock change
+  const { data: routerPendingSplits } = useReadContract({
+    address: routerAddress,
+    abi: SplitRouterABI,
+    functionName: 'getPendingSplits',
+  });
+
+  const { data: roleChecks } = useReadContracts({
+    contracts: VAULT_ROLES.map((role) => ({
+      address: vaultAddress,
+      abi: VaultABI as Abi,
+      functionName: 'hasRole',
+      args: [role.id, address],
+    })),
+    query: { enabled: !!address },
+  });
+
+  const { data: pendingChangeReads } = useReadContracts({
+    contracts: PENDING_CHANGE_TYPES.map((_, changeType) => ({
+      address: vaultAddress,
+      abi: VaultABI as Abi,
+      functionName: 'pendingChanges',
+      args: [changeType],
+    })),
+  });
+
+  const { data: pendingAllocation } = useReadContract({
+    address: vaultAddress,
     abi: VaultABI,
-    functionName: 'owner',
+    functionName: 'pendingAllocation',
   });
 
   const { writeContract: approve, data: approveHash } = useWriteContract();
   const { writeContract: deposit, data: depositHash } = useWriteContract();
   const { writeContract: withdraw, data: withdrawHash } = useWriteContract();
   const { writeContract: harvest, data: harvestHash } = useWriteContract();
+  const { writeContract: claimCertificate, data: claimHash } = useWriteContract();
 
   const { isLoading: isApproving } = useWaitForTransactionReceipt({ hash: approveHash });
   const { isLoading: isDepositing } = useWaitForTransactionReceipt({ hash: depositHash });
   const { isLoading: isWithdrawing } = useWaitForTransactionReceipt({ hash: withdrawHash });
   const { isLoading: isHarvesting } = useWaitForTransactionReceipt({ hash: harvestHash });
+  const { isLoading: isClaiming } = useWaitForTransactionReceipt({ hash: claimHash });
+
+  const { events: donations, isBackfilling, error: donationsError } = useDonationHistory();
+  const { isSupported: permitSupported, isSigning, signPermit } = usePermit(address);
 
-  useWatchContractEvent({
-    address: ROUTER_ADDRESS,
-    abi: RouterABI,
-    eventName: 'YieldDonated',
-    onLogs(logs) {
-      const newDonations = logs.map((log: any) => ({
-        amount: formatUnits(log.args.amount || 0n, 6),
-        beneficiary: log.args.beneficiary,
-        timestamp: Date.now(),
-        txHash: log.transactionHash,
-      }));
-      setDonations((prev) => [...newDonations, ...prev].slice(0, 10));
-    },
+  // Each tab takes either an asset or a share amount; the preview fills in the other side
+  const depositValue = parseAmount(depositAmount, depositMode === 'assets' ? assetDecimals : shareDecimals);
+  const withdrawValue = parseAmount(withdrawAmount, withdrawMode === 'assets' ? assetDecimals : shareDecimals);
+
+  const { data: depositPreview } = useReadContract({
+    address: vaultAddress,
+    abi: VaultABI,
+    functionName: depositMode === 'assets' ? 'previewDeposit' : 'previewMint',
+    args: depositValue ? [depositValue] : undefined,
+    query: { enabled: !!depositValue },
+  });
+
+  const { data: withdrawPreview } = useReadContract({
+    address: vaultAddress,
+    abi: VaultABI,
+    functionName: withdrawMode === 'assets' ? 'previewWithdraw' : 'previewRedeem',
+    args: withdrawValue ? [withdrawValue] : undefined,
+    query: { enabled: !!withdrawValue },
   });
 
+  const depositAssets = depositMode === 'assets' ? depositValue : (depositPreview as bigint | undefined);
+  const depositShares = depositMode === 'assets' ? (depositPreview as bigint | undefined) : depositValue;
+  const withdrawAssets = withdrawMode === 'assets' ? withdrawValue : (withdrawPreview as bigint | undefined);
+  const withdrawShares = withdrawMode === 'assets' ? (withdrawPreview as bigint | undefined) : withdrawValue;
+
+  // ETH deposits go through the gateway, which wraps msg.value, so no allowance is involved
+  const payWithEth = supportsEth && depositEth && depositMode === 'assets';
+  const walletBalance = payWithEth ? ethBalance?.value : (assetBalance as bigint | undefined);
+  const exceedsBalance = depositAssets !== undefined && walletBalance !== undefined && depositAssets > walletBalance;
+  const needsAllowance =
+    !payWithEth && depositAssets !== undefined && allowance !== undefined && depositAssets > (allowance as bigint);
+  // Only deposit() has a permit variant; mint and tokens without ERC-2612 use approve
+  const depositsWithPermit = needsAllowance && permitSupported && depositMode === 'assets';
+  const needsApproval = needsAllowance && !depositsWithPermit;
+  const withdrawMax = (withdrawMode === 'assets' ? maxWithdrawable : maxRedeemable) as bigint | undefined;
+  const exceedsWithdrawMax = withdrawValue !== undefined && withdrawMax !== undefined && withdrawValue > withdrawMax;
+
+  const currentShares = (userShares as bigint | undefined) ?? 0n;
+  const currentAssets = (userAssets as bigint | undefined) ?? 0n;
+  const depositPreviewRows: [string, string][] | undefined =
+    depositAssets !== undefined && depositShares !== undefined
+      ? [
+          depositMode === 'assets'
+            ? ['You receive', `${formatShares(depositShares)} shares`]
+            : ['You pay', `${formatAssets(depositAssets)} ${assetSymbol}`],
+          ['Resulting position', `${formatShares(currentShares + depositShares)} shares`],
+          ['Position value', `${formatAssets(currentAssets + depositAssets)} ${assetSymbol}`],
+        ]
+      : undefined;
+  const withdrawPreviewRows: [string, string][] | undefined =
+    withdrawAssets !== undefined && withdrawShares !== undefined && !exceedsWithdrawMax
+      ? [
+          withdrawMode === 'assets'
+            ? ['Shares burned', `${formatShares(withdrawShares)} shares`]
+            : ['You receive', `${formatAssets(withdrawAssets)} ${assetSymbol}`],
+          ['Remaining position', `${formatShares(currentShares - withdrawShares)} shares`],
+          ['Remaining value', `${formatAssets(currentAssets > withdrawAssets ? currentAssets - withdrawAssets : 0n)} ${assetSymbol}`],
+        ]
+      : undefined;
+
   const handleApprove = () => {
-    if (!depositAmount) return;
+    if (depositAssets === undefined || !assetAddress) return;
     approve({
-      address: ASSET_ADDRESS,
+      address: assetAddress,
       abi: ERC20ABI,
       functionName: 'approve',
-      args: [VAULT_ADDRESS, parseUnits(depositAmount, 6)],
+      args: [vaultAddress, depositAssets],
     });
   };
 
-  const handleDeposit = () => {
-    if (!depositAmount || !address) return;
+  const handleDeposit = async () => {
+    if (depositValue === undefined || !address) return;
+    if (payWithEth) {
+      deposit({
+        address: gatewayAddress!,
+        abi: GatewayABI,
+        functionName: 'depositETH',
+        args: [address],
+        value: depositValue,
+      });
+      return;
+    }
+    if (depositsWithPermit) {
+      let permit;
+      try {
+        permit = await signPermit(depositValue);
+      } catch {
+        return; // Signature rejected in the wallet
+      }
+      deposit({
+        address: vaultAddress,
+        abi: VaultABI,
+        functionName: 'depositWithPermit',
+        args: [depositValue, address, permit.deadline, permit.v, permit.r, permit.s],
+      });
+      return;
+    }
     deposit({
-      address: VAULT_ADDRESS,
+      address: vaultAddress,
       abi: VaultABI,
-      functionName: 'deposit',
-      args: [parseUnits(depositAmount, 6), address],
+      functionName: depositMode === 'assets' ? 'deposit' : 'mint',
+      args: [depositValue, address],
     });
   };
 
   const handleWithdraw = () => {
-    if (!withdrawAmount || !address) return;
-    const shares = parseUnits(withdrawAmount, 18);
+    if (withdrawValue === undefined || !address) return;
     withdraw({
-      address: VAULT_ADDRESS,
+      address: vaultAddress,
       abi: VaultABI,
-      functionName: 'redeem',
-      args: [shares, address, address],
+      functionName: withdrawMode === 'assets' ? 'withdraw' : 'redeem',
+      args: [withdrawValue, address, address],
     });
   };
 
+  const handleWithdrawMax = () => {
+    if (withdrawMax === undefined) return;
+    setWithdrawAmount(withdrawMode === 'assets' ? formatAssets(withdrawMax) : formatShares(withdrawMax));
+  };
+
   const handleHarvest = () => {
     harvest({
-      address: VAULT_ADDRESS,
+      address: vaultAddress,
       abi: VaultABI,
       functionName: 'harvest',
     });
   };
 
-  const isOwner = address && owner && address.toLowerCase() === owner.toLowerCase();
-  const needsApproval = depositAmount && allowance !== undefined && parseUnits(depositAmount, 6) > (allowance as bigint);
+  const handleClaimCertificate = () => {
+    if (!donorNftAddress) return;
+    claimCertificate({
+      address: donorNftAddress,
+      abi: DonorProofABI,
+      functionName: 'claim',
+    });
+  };
+
+  const [splitRecipients, splitWeights] = (routerSplits as [string[], number[]] | undefined) ?? [[], []];
+  const [pendingSplitRecipients, , pendingSplitsEta] =
+    (routerPendingSplits as [string[], number[], bigint] | undefined) ?? [[], [], 0n];
+  const pendingSplit = pendingSplitsEta > 0n
+    ? {
+        description: pendingSplitRecipients.length > 0
+          ? `${pendingSplitRecipients.length} recipient${pendingSplitRecipients.length === 1 ? '' : 's'}`
+          : 'vault beneficiary only',
+        secondsLeft: Number(pendingSplitsEta) - now,
+      }
+    : undefined;
+
+  const currentTier = certificate ? (certificate as [bigint, bigint, string])[0] : 0n;
+  const availableTier = (claimableTier as bigint | undefined) ?? 0n;
+  const canClaimCertificate = availableTier > currentTier;
+  const certificateMetadata = certificateURI ? decodeTokenURI(certificateURI as string) : undefined;
+
+  const heldRoles = VAULT_ROLES.filter((_, i) => roleChecks?.[i]?.result === true).map((role) => role.name);
+  const pendingChanges = PENDING_CHANGE_TYPES.flatMap((label, i): PendingChangeSummary[] => {
+    const change = pendingChangeReads?.[i]?.result as PendingChange | undefined;
+    if (!change || change[3] === 0n) return [];
+    const [oldValue, newValue, newDelay, eta] = change;
+    const description = label === 'Timelock delay'
+      ? `${Number(newDelay) / 3600}h`
+      : label === 'Strategy migration'
+        ? `${oldValue.slice(0, 10)}... → ${newValue.slice(0, 10)}...`
+        : label === 'Strategy allocation' && pendingAllocation
+          ? `${newValue.slice(0, 10)}... at ${Number((pendingAllocation as [bigint, bigint])[0]) / 100}%`
+          : `${newValue.slice(0, 10)}...`;
+    return [{ changeType: i, label, description, newValue, secondsLeft: Number(eta) - now }];
+  });
+  const donationPages = Math.max(1, Math.ceil(donations.length / DONATIONS_PER_PAGE));
+  const currentDonationPage = Math.min(donationPage, donationPages);
+  const visibleDonations = donations.slice(
+    (currentDonationPage - 1) * DONATIONS_PER_PAGE,
+    currentDonationPage * DONATIONS_PER_PAGE
+  );
+
+
+  const capacity = depositCapacity as bigint | undefined;
+  const isCapped = capacity !== undefined && capacity !== maxUint256;
+  const isVaultFull = capacity === 0n;
+  const exceedsCapacity = depositAssets !== undefined && capacity !== undefined && depositAssets > capacity;
 
   if (!isConnected) {
     return (
@@ -148,7 +495,7 @@ export default function Dashboard() {
           <CardHeader>
             <CardTitle className="text-2xl">Yield4Good</CardTitle>
             <CardDescription>
-              Deposit USDC, keep your principal, donate 100% of yield to public goods
+              Deposit {assetSymbol}, keep your principal, donate 100% of yield to public goods
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -166,7 +513,10 @@ export default function Dashboard() {
           <h1 className="text-4xl font-bold text-gray-900">Yield4Good</h1>
           <p className="text-gray-600 mt-2">Donate yield, keep principal safe</p>
         </div>
-        <ConnectButton />
+        <div className="flex items-center gap-4">
+          <VaultPicker />
+          <ConnectButton />
+        </div>
       </div>
 
       {chain && (chain.id !== 11155111 && chain.id !== 421614) && (
@@ -177,7 +527,25 @@ export default function Dashboard() {
         </Alert>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      {(pendingChanges.length > 0 || pendingSplit) && (
+        <Alert className="mb-6">
+          <AlertDescription>
+            <div className="font-medium mb-1">Pending changes</div>
+            {pendingChanges.map((change) => (
+              <div key={change.label} className="text-sm">
+                {change.label} → {change.description}: {formatCountdown(change.secondsLeft)}
+              </div>
+            ))}
+            {pendingSplit && (
+              <div className="text-sm">
+                Donation split → {pendingSplit.description}: {formatCountdown(pendingSplit.secondsLeft)}
+              </div>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Value Locked</CardTitle>
@@ -185,7 +553,7 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {totalAssets ? formatUnits(totalAssets as bigint, 6) : '0'} USDC
+              {formatAssets(totalAssets)} {assetSymbol}
             </div>
           </CardContent>
         </Card>
@@ -197,8 +565,11 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {totalDonated ? formatUnits(totalDonated as bigint, 6) : '0'} USDC
+              {formatAssets(totalDonated)} {assetSymbol}
             </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatAssets(pendingDonation)} {assetSymbol} pending harvest
+            </p>
           </CardContent>
         </Card>
 
@@ -209,15 +580,32 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {userAssets ? formatUnits(userAssets as bigint, 6) : '0'} USDC
+              {formatAssets(userAssets)} {assetSymbol}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              {userShares ? formatUnits(userShares as bigint, 18) : '0'} shares
+              {formatShares(userShares)} shares
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">My Impact</CardTitle>
+            <HeartHandshake className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatAssets(userDonated)} {assetSymbol}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Yield donated from your shares
             </p>
           </CardContent>
         </Card>
       </div>
 
+      <VaultAnalytics donations={donations} />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
           <Card>
@@ -232,15 +620,66 @@ export default function Dashboard() {
                 </TabsList>
 
                 <TabsContent value="deposit" className="space-y-4">
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={depositMode}
+                    onValueChange={(value) => {
+                      if (!value) return;
+                      setDepositMode(value as 'assets' | 'shares');
+                      setDepositAmount('');
+                    }}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="assets">Deposit {assetSymbol}</ToggleGroupItem>
+                    <ToggleGroupItem value="shares">Mint Shares</ToggleGroupItem>
+                  </ToggleGroup>
+                  {supportsEth && depositMode === 'assets' && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium">Deposit ETH</p>
+                        <p className="text-xs text-muted-foreground">Wrapped to WETH by the gateway in the same transaction</p>
+                      </div>
+                      <Switch checked={depositEth} onCheckedChange={setDepositEth} aria-label="Deposit ETH" />
+                    </div>
+                  )}
                   <div className="space-y-2">
-                    <label className="text-sm font-medium">Amount (USDC)</label>
+                    <label className="text-sm font-medium">
+                      {depositMode === 'shares' ? 'Shares to Mint' : payWithEth ? 'Amount (ETH)' : `Amount (${assetSymbol})`}
+                    </label>
                     <Input
                       type="number"
                       placeholder="0.00"
                       value={depositAmount}
                       onChange={(e) => setDepositAmount(e.target.value)}
                     />
+                    <p className="text-xs text-muted-foreground">
+                      Wallet: {formatAssets(walletBalance)} {payWithEth ? 'ETH' : assetSymbol}
+                      {isCapped && <> · Remaining capacity: {formatAssets(capacity)} {assetSymbol}</>}
+                    </p>
                   </div>
+                  {depositPreviewRows && <PreviewSummary rows={depositPreviewRows} />}
+                  {isVaultFull && (
+                    <Alert>
+                      <AlertDescription>
+                        The vault has reached its deposit cap. Deposits are closed for now.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {!isVaultFull && exceedsCapacity && (
+                    <Alert>
+                      <AlertDescription>
+                        Amount exceeds the remaining deposit capacity.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {exceedsBalance && (
+                    <Alert>
+                      <AlertDescription>
+                        Amount exceeds your wallet balance of {formatAssets(walletBalance)} {payWithEth ? 'ETH' : assetSymbol}.
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   <div className="flex gap-2">
                     {needsApproval && (
                       <Button
@@ -254,35 +693,72 @@ export default function Dashboard() {
                     )}
                     <Button
                       onClick={handleDeposit}
-                      disabled={!depositAmount || needsApproval || isDepositing}
+                      disabled={!depositValue || depositAssets === undefined || needsApproval || isSigning || isDepositing || isVaultFull || exceedsCapacity || exceedsBalance}
                       className="flex-1"
                     >
                       <ArrowDownToLine className="mr-2 h-4 w-4" />
-                      {isDepositing ? 'Depositing...' : 'Deposit'}
+                      {isSigning
+                        ? 'Sign Permit...'
+                        : isDepositing
+                          ? 'Depositing...'
+                          : isVaultFull ? 'Vault Full' : depositMode === 'assets' ? 'Deposit' : 'Mint'}
                     </Button>
                   </div>
                 </TabsContent>
 
                 <TabsContent value="withdraw" className="space-y-4">
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={withdrawMode}
+                    onValueChange={(value) => {
+                      if (!value) return;
+                      setWithdrawMode(value as 'assets' | 'shares');
+                      setWithdrawAmount('');
+                    }}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="assets">Withdraw {assetSymbol}</ToggleGroupItem>
+                    <ToggleGroupItem value="shares">Redeem Shares</ToggleGroupItem>
+                  </ToggleGroup>
                   <div className="space-y-2">
-                    <label className="text-sm font-medium">Shares to Redeem</label>
-                    <Input
-                      type="number"
-                      placeholder="0.00"
-                      value={withdrawAmount}
-                      onChange={(e) => setWithdrawAmount(e.target.value)}
-                    />
+                    <label className="text-sm font-medium">
+                      {withdrawMode === 'assets' ? `Amount (${assetSymbol})` : 'Shares to Redeem'}
+                    </label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        placeholder="0.00"
+                        value={withdrawAmount}
+                        onChange={(e) => setWithdrawAmount(e.target.value)}
+                      />
+                      <Button variant="outline" onClick={handleWithdrawMax} disabled={withdrawMax === undefined}>
+                        Max
+                      </Button>
+                    </div>
                     <p className="text-xs text-muted-foreground">
-                      Available: {userShares ? formatUnits(userShares as bigint, 18) : '0'} shares
+                      Available: {withdrawMode === 'assets'
+                        ? `${formatAssets(maxWithdrawable)} ${assetSymbol}`
+                        : `${formatShares(maxRedeemable)} shares`}
                     </p>
                   </div>
+                  {withdrawPreviewRows && <PreviewSummary rows={withdrawPreviewRows} />}
+                  {exceedsWithdrawMax && (
+                    <Alert>
+                      <AlertDescription>
+                        Amount exceeds what you can {withdrawMode === 'assets' ? 'withdraw' : 'redeem'}.
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   <Button
                     onClick={handleWithdraw}
-                    disabled={!withdrawAmount || isWithdrawing}
+                    disabled={withdrawValue === undefined || withdrawValue === 0n || exceedsWithdrawMax || isWithdrawing}
                     className="w-full"
                   >
                     <ArrowUpFromLine className="mr-2 h-4 w-4" />
-                    {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+                    {isWithdrawing
+                      ? 'Withdrawing...'
+                      : withdrawMode === 'assets' ? 'Withdraw' : 'Redeem'}
                   </Button>
                 </TabsContent>
               </Tabs>
@@ -309,19 +785,38 @@ export default function Dashboard() {
           <Card>
             <CardHeader>
               <CardTitle>Recent Donations</CardTitle>
-              <CardDescription>Latest yield donations to public goods</CardDescription>
+              <CardDescription>Yield harvested and donated to public goods</CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              {donationsError && (
+                <Alert>
+                  <AlertDescription>Could not load donation history: {donationsError.message}</AlertDescription>
+                </Alert>
+              )}
               {donations.length === 0 ? (
                 <p className="text-sm text-muted-foreground text-center py-4">
-                  No donations yet
+                  {isBackfilling ? 'Loading donation history...' : 'No donations yet'}
                 </p>
               ) : (
                 <div className="space-y-3">
-                  {donations.map((donation, i) => (
-                    <div key={i} className="flex justify-between items-start text-sm border-b pb-2">
+                  {visibleDonations.map((donation) => (
+                    <div key={donation.id} className="flex justify-between items-start text-sm border-b pb-2">
                       <div>
-                        <p className="font-medium">{donation.amount} USDC</p>
+                        <p className="font-medium">
+                          {formatAssets(donation.amount)} {assetSymbol}{' '}
+                          {donation.recipients.length > 1 && <Badge variant="outline">Split</Badge>}
+                        </p>
+                        {donation.recipients.length > 1 ? (
+                          donation.recipients.map((recipient, i) => (
+                            <p key={i} className="text-xs font-mono text-muted-foreground">
+                              {formatAssets(recipient.amount)} to {recipient.beneficiary.slice(0, 10)}...
+                            </p>
+                          ))
+                        ) : (
+                          <p className="text-xs font-mono text-muted-foreground">
+                            to {(donation.recipients[0]?.beneficiary ?? donation.beneficiary).slice(0, 10)}...
+                          </p>
+                        )}
                         <a
                           href={`${chain?.blockExplorers?.default.url}/tx/${donation.txHash}`}
                           target="_blank"
@@ -331,16 +826,102 @@ export default function Dashboard() {
                           View tx
                         </a>
                       </div>
-                      <p className="text-xs text-muted-foreground">
+                      <p className="text-xs text-muted-foreground text-right">
+                        {new Date(donation.timestamp).toLocaleDateString()}
+                        <br />
                         {new Date(donation.timestamp).toLocaleTimeString()}
                       </p>
                     </div>
                   ))}
                 </div>
               )}
+              {donationPages > 1 && (
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setDonationPage(Math.max(1, currentDonationPage - 1));
+                        }}
+                      />
+                    </PaginationItem>
+                    {pageWindow(currentDonationPage, donationPages).map((page, i) => (
+                      <PaginationItem key={page ?? `gap-${i}`}>
+                        {page === null ? (
+                          <PaginationEllipsis />
+                        ) : (
+                          <PaginationLink
+                            href="#"
+                            isActive={page === currentDonationPage}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              setDonationPage(page);
+                            }}
+                          >
+                            {page}
+                          </PaginationLink>
+                        )}
+                      </PaginationItem>
+                    ))}
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setDonationPage(Math.min(donationPages, currentDonationPage + 1));
+                        }}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
             </CardContent>
           </Card>
 
+          {donorNftAddress && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="text-sm">Donor Certificate</CardTitle>
+                <CardDescription>Soulbound proof of the yield you have donated</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {certificateMetadata ? (
+                  <img
+                    src={certificateMetadata.image}
+                    alt={certificateMetadata.name}
+                    className="w-full rounded-md"
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No certificate yet
+                  </p>
+                )}
+                <Button
+                  onClick={handleClaimCertificate}
+                  disabled={!canClaimCertificate || isClaiming}
+                  variant="outline"
+                  className="w-full"
+                >
+                  <HeartHandshake className="mr-2 h-4 w-4" />
+                  {isClaiming
+                    ? 'Claiming...'
+                    : !hasCertificate
+                      ? 'Claim Certificate'
+                      : canClaimCertificate
+                        ? `Upgrade to Tier ${availableTier.toString()}`
+                        : `Tier ${currentTier.toString()} Certificate`}
+                </Button>
+                {!canClaimCertificate && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    Keep donating yield to reach the next tier
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {beneficiary && (
             <Card className="mt-6">
               <CardHeader>
@@ -352,15 +933,37 @@ export default function Dashboard() {
             </Card>
           )}
 
-          {isOwner && (
+          {splitRecipients.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="text-sm">Donation Split</CardTitle>
+                <CardDescription>Each harvest is shared between these beneficiaries</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {splitRecipients.map((recipient, i) => (
+                    <div key={recipient} className="flex justify-between items-center text-xs">
+                      <p className="font-mono truncate mr-2">{recipient}</p>
+                      <p className="font-medium">{(splitWeights[i] / 100).toFixed(2)}%</p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {heldRoles.length > 0 && (
             <Card className="mt-6 border-yellow-200 bg-yellow-50">
               <CardHeader>
                 <CardTitle className="text-sm">Owner Controls</CardTitle>
               </CardHeader>
-              <CardContent>
-                <p className="text-xs text-muted-foreground">
-                  You are the vault owner. Admin functions available via contract interaction.
-                </p>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-1">
+                  {heldRoles.map((role) => (
+                    <Badge key={role} variant="secondary">{role}</Badge>
+                  ))}
+                </div>
+                <AdminPanel heldRoles={heldRoles} pendingChanges={pendingChanges} />
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { formatUnits } from 'viem';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
+import { useVaultHistory, type HistoryRange } from '../hooks/use-vault-history';
+import type { DonationEvent } from '../hooks/use-donation-history';
+import { useVaultDecimals } from '../hooks/use-vault-decimals';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+const formatTooltipDate = (timestamp: unknown) => new Date(timestamp as number).toLocaleString();
+
+interface ChartProps {
+  title: string;
+  data: { timestamp: number; value: number }[];
+  color: string;
+  unit: string;
+  kind: 'area' | 'line';
+  digits?: number;
+}
+
+function HistoryChart({ title, data, color, unit, kind, digits = 2 }: ChartProps) {
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+      <XAxis
+        dataKey="timestamp"
+        type="number"
+        scale="time"
+        domain={['dataMin', 'dataMax']}
+        tickFormatter={formatDate}
+        fontSize={10}
+      />
+      <YAxis fontSize={10} width={60} domain={kind === 'line' ? ['auto', 'auto'] : [0, 'auto']} />
+      <Tooltip
+        labelFormatter={formatTooltipDate}
+        formatter={(value: number) => [`${value.toFixed(digits)} ${unit}`, title]}
+      />
+    </>
+  );
+
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">{title}</p>
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          {kind === 'area' ? (
+            <AreaChart data={data}>
+              {axes}
+              <Area type="stepAfter" dataKey="value" stroke={color} fill={color} fillOpacity={0.2} />
+            </AreaChart>
+          ) : (
+            <LineChart data={data}>
+              {axes}
+              <Line type="monotone" dataKey="value" stroke={color} dot={false} />
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+interface VaultAnalyticsProps {
+  donations: DonationEvent[];
+}
+
+export default function VaultAnalytics({ donations }: VaultAnalyticsProps) {
+  const [range, setRange] = useState<HistoryRange>('30d');
+  const { points, isLoading, error } = useVaultHistory(range);
+  const { assetDecimals = 0, assetSymbol = 'assets' } = useVaultDecimals();
+
+  // Cumulative donations at each sampled block, rebuilt from the harvest events
+  const donated = points.map((point) => ({
+    timestamp: point.timestamp,
+    value: donations
+      .filter((event) => event.blockNumber <= point.blockNumber)
+      .reduce((total, event) => total + Number(formatUnits(event.amount, assetDecimals)), 0),
+  }));
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Analytics</CardTitle>
+          <CardDescription>Vault history sampled from past blocks</CardDescription>
+        </div>
+        <Tabs value={range} onValueChange={(value) => setRange(value as HistoryRange)}>
+          <TabsList>
+            <TabsTrigger value="7d">7d</TabsTrigger>
+            <TabsTrigger value="30d">30d</TabsTrigger>
+            <TabsTrigger value="all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert>
+            <AlertDescription>Could not load vault history: {error.message}</AlertDescription>
+          </Alert>
+        ) : points.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {isLoading ? 'Loading vault history...' : 'No history yet'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <HistoryChart
+              title="TVL"
+              data={points.map((point) => ({ timestamp: point.timestamp, value: point.tvl }))}
+              color="#2563eb"
+              unit={assetSymbol}
+              kind="area"
+            />
+            <HistoryChart
+              title="Share Price"
+              data={points.map((point) => ({ timestamp: point.timestamp, value: point.sharePrice }))}
+              color="#7c3aed"
+              unit={assetSymbol}
+              kind="line"
+              digits={6}
+            />
+            <HistoryChart title="Cumulative Donations" data={donated} color="#db2777" unit={assetSymbol} kind="area" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
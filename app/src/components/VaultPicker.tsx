@@ -0,0 +1,24 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useSelectedVault } from '../hooks/use-selected-vault';
+
+export default function VaultPicker() {
+  const { vaults, vault, selectVault } = useSelectedVault();
+
+  if (vaults.length < 2) return null;
+
+  return (
+    <Select value={vault} onValueChange={(value) => selectVault(value as `0x${string}`)}>
+      <SelectTrigger className="w-64" aria-label="Vault">
+        <SelectValue placeholder="Select a vault" />
+      </SelectTrigger>
+      <SelectContent>
+        {vaults.map((option) => (
+          <SelectItem key={option.address} value={option.address}>
+            {option.causeName}
+            {option.assetSymbol && <span className="text-muted-foreground"> · {option.assetSymbol}</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,113 @@
+import { Fragment, useState, type ReactNode } from 'react';
+import { useReadContract, useReadContracts } from 'wagmi';
+import { type Abi } from 'viem';
+import { SelectedVaultContext, type VaultOption } from '../hooks/use-selected-vault';
+import { useDeployment } from '../hooks/use-deployment';
+import FactoryABI from '../contracts/Yield4GoodFactory.json';
+import VaultABI from '../contracts/Yield4GoodVault.json';
+import ERC20ABI from '../contracts/MockERC20.json';
+
+const STORAGE_KEY = 'yield4good:vault';
+
+type VaultInfo = readonly [`0x${string}`, string, string, boolean, bigint];
+
+/**
+ * Lists the standalone and upgradeable vaults in the deployment manifest followed by
+ * the vaults registered with its Yield4GoodFactory, and provides the selected one,
+ * remembered across reloads. Children are remounted when the selection changes so
+ * no per-vault state leaks between vaults.
+ */
+export default function VaultProvider({ children }: { children: ReactNode }) {
+  const { contracts } = useDeployment();
+  const factory = contracts.Yield4GoodFactory;
+  const standalone = [
+    contracts.Yield4GoodVault && { address: contracts.Yield4GoodVault, causeName: 'Yield4Good Vault', uri: '' },
+    contracts.Yield4GoodVaultProxy && {
+      address: contracts.Yield4GoodVaultProxy,
+      causeName: 'Yield4Good Vault (upgradeable)',
+      uri: '',
+    },
+  ].filter((option) => !!option);
+  const [selected, setSelected] = useState(() => localStorage.getItem(STORAGE_KEY) ?? standalone[0]?.address);
+
+  const { data: registered, isLoading } = useReadContract({
+    address: factory,
+    abi: FactoryABI,
+    functionName: 'getVaults',
+    query: { enabled: !!factory },
+  });
+  const addresses = (registered as `0x${string}`[] | undefined) ?? [];
+
+  const { data: infos } = useReadContracts({
+    contracts: addresses.map((address) => ({
+      address: factory,
+      abi: FactoryABI as Abi,
+      functionName: 'vaultInfo',
+      args: [address],
+    })),
+    query: { enabled: addresses.length > 0 },
+  });
+
+  const options = [
+    ...standalone,
+    ...addresses.map((address, i) => {
+      const info = infos?.[i]?.result as VaultInfo | undefined;
+      return { address, causeName: info?.[1] ?? `${address.slice(0, 10)}...`, uri: info?.[2] ?? '' };
+    }),
+  ];
+
+  // Vaults can hold different assets, so each option carries its asset's symbol
+  const { data: optionAssets } = useReadContracts({
+    contracts: options.map((option) => ({ address: option.address, abi: VaultABI as Abi, functionName: 'asset' })),
+    query: { enabled: options.length > 0 },
+  });
+  const { data: optionSymbols } = useReadContracts({
+    contracts: options.map((_, i) => ({
+      address: optionAssets?.[i]?.result as `0x${string}` | undefined,
+      abi: ERC20ABI as Abi,
+      functionName: 'symbol',
+    })),
+    query: { enabled: !!optionAssets, staleTime: Infinity },
+  });
+  const vaults: VaultOption[] = options.map((option, i) => ({
+    ...option,
+    assetSymbol: optionSymbols?.[i]?.result as string | undefined,
+  }));
+  const vault =
+    vaults.find((option) => option.address.toLowerCase() === selected?.toLowerCase())?.address ?? vaults[0]?.address;
+
+  const { data: vaultReads } = useReadContracts({
+    contracts: [
+      { address: vault, abi: VaultABI as Abi, functionName: 'asset' },
+      { address: vault, abi: VaultABI as Abi, functionName: 'donationRouter' },
+    ],
+    query: { enabled: !!vault },
+  });
+
+  const selectVault = (address: `0x${string}`) => {
+    localStorage.setItem(STORAGE_KEY, address);
+    setSelected(address);
+  };
+
+  if (!vault) {
+    return (
+      <p className="text-center text-gray-600 py-16">
+        {isLoading ? 'Loading vaults...' : 'No vaults registered yet'}
+      </p>
+    );
+  }
+
+  return (
+    <SelectedVaultContext.Provider
+      value={{
+        vaults,
+        vault,
+        asset: vaultReads?.[0]?.result as `0x${string}` | undefined,
+        router: vaultReads?.[1]?.result as `0x${string}` | undefined,
+        selectVault,
+      }}
+    >
+      <Fragment key={vault}>{children}</Fragment>
+    </SelectedVaultContext.Provider>
+  );
+}
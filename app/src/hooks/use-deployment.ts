@@ -0,0 +1,34 @@
+import { useChainId } from 'wagmi';
+import manifest from '../contracts/deployments.json';
+
+type ContractName =
+  | 'Yield4GoodVault'
+  | 'Yield4GoodVaultProxy'
+  | 'Yield4GoodFactory'
+  | 'ETHGateway'
+  | 'DonorProofNFT'
+  | 'DonationRouter'
+  | 'MockStrategy';
+
+interface Deployment {
+  network: string;
+  /** Earliest block recorded on the chain */
+  deploymentBlock: number;
+  contracts: Partial<Record<ContractName, `0x${string}`>>;
+}
+
+const deployments = manifest as Record<string, Deployment | undefined>;
+
+/**
+ * Addresses deployed on the connected chain, from the manifest the deploy scripts
+ * write to src/contracts/deployments.json. Contracts missing on a chain are undefined.
+ */
+export function useDeployment() {
+  const chainId = useChainId();
+  const deployment = deployments[chainId];
+
+  return {
+    contracts: deployment?.contracts ?? {},
+    deploymentBlock: BigInt(deployment?.deploymentBlock ?? 0),
+  };
+}
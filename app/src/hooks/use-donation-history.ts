@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePublicClient, useWatchContractEvent } from 'wagmi';
+import { type Abi } from 'viem';
+import VaultABI from '../contracts/Yield4GoodVault.json';
+import RouterABI from '../contracts/DonationRouter.json';
+import { useSelectedVault } from './use-selected-vault';
+import { useDeployment } from './use-deployment';
+
+// Most public RPCs reject eth_getLogs ranges much wider than this
+const LOG_CHUNK_SIZE = 5_000n;
+
+export interface DonationRecipient {
+  beneficiary: string;
+  /** Asset base units */
+  amount: bigint;
+}
+
+/** One harvest transaction, with the router's payouts folded in */
+export interface DonationEvent {
+  id: string;
+  /** Yield donated in the transaction, asset base units */
+  amount: bigint;
+  /** Beneficiary named by the vault's Harvest log */
+  beneficiary: string;
+  /** One per YieldDonated log; a split router pays several recipients */
+  recipients: DonationRecipient[];
+  blockNumber: bigint;
+  logIndex: number;
+  timestamp: number;
+  txHash: string;
+}
+
+interface DecodedLog {
+  id: string;
+  kind: 'harvest' | 'donation';
+  amount: bigint;
+  beneficiary: string;
+  blockNumber: bigint;
+  logIndex: number;
+  timestamp: number;
+  txHash: string;
+}
+
+interface RawLog {
+  eventName?: string;
+  args?: unknown;
+  blockNumber: bigint | null;
+  logIndex: number | null;
+  transactionHash: `0x${string}` | null;
+}
+
+function byNewest(a: DecodedLog | DonationEvent, b: DecodedLog | DonationEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber > b.blockNumber ? -1 : 1;
+  return b.logIndex - a.logIndex;
+}
+
+/**
+ * Folds each transaction's Harvest and YieldDonated logs into a single event. The router
+ * log can arrive before the vault log (or alone, while the other is still loading), so the
+ * amount falls back to the sum of the payouts until the Harvest log is known.
+ */
+function groupByTransaction(logs: DecodedLog[]): DonationEvent[] {
+  const byTx = new Map<string, { harvest?: DecodedLog; payouts: DecodedLog[] }>();
+  for (const log of logs) {
+    const group = byTx.get(log.txHash) ?? { payouts: [] };
+    if (log.kind === 'harvest') group.harvest = log;
+    else group.payouts.unshift(log);
+    byTx.set(log.txHash, group);
+  }
+
+  return [...byTx.values()]
+    .map(({ harvest, payouts }): DonationEvent => {
+      const first = harvest ?? payouts[0];
+      return {
+        id: first.txHash,
+        amount: harvest?.amount ?? payouts.reduce((total, payout) => total + payout.amount, 0n),
+        beneficiary: harvest?.beneficiary ?? first.beneficiary,
+        recipients: payouts.map(({ beneficiary, amount }) => ({ beneficiary, amount })),
+        blockNumber: first.blockNumber,
+        logIndex: first.logIndex,
+        timestamp: first.timestamp,
+        txHash: first.txHash,
+      };
+    })
+    .sort(byNewest);
+}
+
+/**
+ * Harvests for the vault, newest first, each with the router payouts from the same
+ * transaction. Past logs are backfilled
+ * with eth_getLogs in LOG_CHUNK_SIZE ranges walking back from the head to the
+ * manifest's deployment block, and new logs are appended as they arrive. Timestamps
+ * are block times, not the time the log was seen.
+ */
+export function useDonationHistory() {
+  const publicClient = usePublicClient();
+  const { vault, router } = useSelectedVault();
+  const { deploymentBlock } = useDeployment();
+  const [logs, setLogs] = useState<DecodedLog[]>([]);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [error, setError] = useState<Error>();
+  const blockTimes = useRef(new Map<bigint, Promise<number>>());
+
+  const blockTime = useCallback(
+    (blockNumber: bigint) => {
+      let time = blockTimes.current.get(blockNumber);
+      if (!time) {
+        time = publicClient!
+          .getBlock({ blockNumber })
+          .then((block) => Number(block.timestamp) * 1000);
+        blockTimes.current.set(blockNumber, time);
+      }
+      return time;
+    },
+    [publicClient]
+  );
+
+  const addLogs = useCallback(
+    async (logs: RawLog[]) => {
+      const decoded = await Promise.all(
+        logs
+          .filter((log) => log.blockNumber !== null && log.transactionHash !== null)
+          .map(async (log): Promise<DecodedLog> => {
+            const args = log.args as { amount?: bigint; yieldAmount?: bigint; beneficiary?: string };
+            const isHarvest = log.eventName === 'Harvest';
+            return {
+              id: `${log.transactionHash}-${log.logIndex}`,
+              kind: isHarvest ? 'harvest' : 'donation',
+              amount: (isHarvest ? args.yieldAmount : args.amount) ?? 0n,
+              beneficiary: args.beneficiary ?? '',
+              blockNumber: log.blockNumber!,
+              logIndex: log.logIndex ?? 0,
+              timestamp: await blockTime(log.blockNumber!),
+              txHash: log.transactionHash!,
+            };
+          })
+      );
+
+      setLogs((prev) => {
+        const known = new Set(prev.map((log) => log.id));
+        return [...prev, ...decoded.filter((log) => !known.has(log.id))].sort(byNewest);
+      });
+    },
+    [blockTime]
+  );
+
+  useEffect(() => {
+    if (!publicClient || !router) return;
+    let cancelled = false;
+
+    const backfill = async () => {
+      setIsBackfilling(true);
+      setError(undefined);
+      try {
+        const head = await publicClient.getBlockNumber();
+        for (let toBlock = head; toBlock >= deploymentBlock && !cancelled; toBlock -= LOG_CHUNK_SIZE) {
+          const fromBlock = toBlock - LOG_CHUNK_SIZE + 1n > deploymentBlock
+            ? toBlock - LOG_CHUNK_SIZE + 1n
+            : deploymentBlock;
+          const [harvests, donations] = await Promise.all([
+            publicClient.getContractEvents({
+              address: vault,
+              abi: VaultABI as Abi,
+              eventName: 'Harvest',
+              fromBlock,
+              toBlock,
+            }),
+            publicClient.getContractEvents({
+              address: router,
+              abi: RouterABI as Abi,
+              eventName: 'YieldDonated',
+              args: { caller: vault },
+              fromBlock,
+              toBlock,
+            }),
+          ]);
+          if (!cancelled) await addLogs([...harvests, ...donations]);
+          if (fromBlock === 0n) break;
+        }
+      } catch (err) {
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setIsBackfilling(false);
+      }
+    };
+
+    backfill();
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, addLogs, vault, router, deploymentBlock]);
+
+  useWatchContractEvent({
+    address: vault,
+    abi: VaultABI,
+    eventName: 'Harvest',
+    onLogs(logs) {
+      addLogs(logs as RawLog[]);
+    },
+  });
+
+  useWatchContractEvent({
+    address: router,
+    abi: RouterABI,
+    eventName: 'YieldDonated',
+    args: { caller: vault },
+    enabled: !!router,
+    onLogs(logs) {
+      addLogs(logs as RawLog[]);
+    },
+  });
+
+  const events = useMemo(() => groupByTransaction(logs), [logs]);
+
+  return { events, isBackfilling, error };
+}
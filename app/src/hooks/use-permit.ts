@@ -0,0 +1,72 @@
+import { useChainId, useReadContracts, useSignTypedData } from 'wagmi';
+import { domainSeparator, parseSignature, type Abi, type TypedDataDomain } from 'viem';
+import ERC20ABI from '../contracts/MockERC20.json';
+import { useSelectedVault } from './use-selected-vault';
+
+// Signatures stay valid for 20 minutes
+const PERMIT_LIFETIME_SECONDS = 20n * 60n;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+type Eip712Domain = readonly [`0x${string}`, string, string, bigint, `0x${string}`, `0x${string}`, readonly bigint[]];
+
+/**
+ * ERC-2612 support for the vault asset. The signing domain comes from ERC-5267
+ * `eip712Domain()` when the token has it, otherwise from `name()` with the common
+ * versions "1" and "2". A domain is only used if it reproduces the token's
+ * DOMAIN_SEPARATOR, so tokens without permit (or with an unknown domain) report
+ * `isSupported: false` and callers fall back to approve.
+ */
+export function usePermit(owner: `0x${string}` | undefined) {
+  const chainId = useChainId();
+  const { vault, asset } = useSelectedVault();
+  const { signTypedDataAsync, isPending: isSigning } = useSignTypedData();
+
+  const { data } = useReadContracts({
+    contracts: [
+      { address: asset, abi: ERC20ABI as Abi, functionName: 'nonces', args: [owner] },
+      { address: asset, abi: ERC20ABI as Abi, functionName: 'DOMAIN_SEPARATOR' },
+      { address: asset, abi: ERC20ABI as Abi, functionName: 'eip712Domain' },
+      { address: asset, abi: ERC20ABI as Abi, functionName: 'name' },
+    ],
+    query: { enabled: !!owner && !!asset },
+  });
+
+  const nonce = data?.[0]?.result as bigint | undefined;
+  const separator = data?.[1]?.result as `0x${string}` | undefined;
+  const eip712Domain = data?.[2]?.result as Eip712Domain | undefined;
+  const name = data?.[3]?.result as string | undefined;
+
+  const candidates: TypedDataDomain[] = eip712Domain
+    ? [{ name: eip712Domain[1], version: eip712Domain[2], chainId: Number(eip712Domain[3]), verifyingContract: eip712Domain[4] }]
+    : name && asset
+      ? ['1', '2'].map((version) => ({ name, version, chainId, verifyingContract: asset }))
+      : [];
+  const domain = separator ? candidates.find((candidate) => domainSeparator({ domain: candidate }) === separator) : undefined;
+
+  const isSupported = nonce !== undefined && domain !== undefined;
+
+  /** Signs a permit for the vault to pull `value` and returns the depositWithPermit arguments. */
+  const signPermit = async (value: bigint) => {
+    if (!owner || !isSupported) throw new Error('Permit is not supported for this asset');
+    const deadline = BigInt(Math.floor(Date.now() / 1000)) + PERMIT_LIFETIME_SECONDS;
+    const signature = await signTypedDataAsync({
+      domain,
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: { owner, spender: vault, value, nonce, deadline },
+    });
+    const { r, s, v, yParity } = parseSignature(signature);
+    return { deadline, v: Number(v ?? BigInt(yParity + 27)), r, s };
+  };
+
+  return { isSupported, isSigning, signPermit };
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+
+export interface VaultOption {
+  address: `0x${string}`;
+  causeName: string;
+  uri: string;
+  /** Symbol of the vault's asset; undefined until loaded */
+  assetSymbol: string | undefined;
+}
+
+export interface SelectedVault {
+  /** Vaults registered with the factory, or just the manifest's vault without one */
+  vaults: VaultOption[];
+  vault: `0x${string}`;
+  /** Read from the selected vault; undefined until loaded */
+  asset: `0x${string}` | undefined;
+  router: `0x${string}` | undefined;
+  selectVault: (vault: `0x${string}`) => void;
+}
+
+export const SelectedVaultContext = createContext<SelectedVault | undefined>(undefined);
+
+/** The vault picked in the dashboard. Must be used under VaultProvider. */
+export function useSelectedVault(): SelectedVault {
+  const selected = useContext(SelectedVaultContext);
+  if (!selected) throw new Error('useSelectedVault must be used within VaultProvider');
+  return selected;
+}
@@ -0,0 +1,39 @@
+import { useReadContracts } from 'wagmi';
+import { parseUnits, type Abi } from 'viem';
+import VaultABI from '../contracts/Yield4GoodVault.json';
+import ERC20ABI from '../contracts/MockERC20.json';
+import { useSelectedVault } from './use-selected-vault';
+
+/**
+ * On-chain decimals of the vault asset and of vault shares, and the asset's symbol for
+ * labelling amounts. ERC-4626 shares are not necessarily 18 decimals: this vault's shares
+ * use the asset's decimals. Vaults can hold any ERC-20, so nothing here assumes USDC.
+ * All three are undefined until loaded.
+ */
+export function useVaultDecimals() {
+  const { vault, asset } = useSelectedVault();
+  const { data } = useReadContracts({
+    contracts: [
+      { address: asset, abi: ERC20ABI as Abi, functionName: 'decimals' },
+      { address: vault, abi: VaultABI as Abi, functionName: 'decimals' },
+      { address: asset, abi: ERC20ABI as Abi, functionName: 'symbol' },
+    ],
+    query: { enabled: !!asset, staleTime: Infinity },
+  });
+
+  return {
+    assetDecimals: data?.[0]?.result as number | undefined,
+    shareDecimals: data?.[1]?.result as number | undefined,
+    assetSymbol: data?.[2]?.result as string | undefined,
+  };
+}
+
+/** parseUnits that returns undefined for empty or malformed input instead of throwing. */
+export function parseAmount(value: string, decimals: number | undefined): bigint | undefined {
+  if (!value || decimals === undefined) return undefined;
+  try {
+    return parseUnits(value, decimals);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { formatUnits, type Abi } from 'viem';
+import VaultABI from '../contracts/Yield4GoodVault.json';
+import ERC20ABI from '../contracts/MockERC20.json';
+import { useSelectedVault } from './use-selected-vault';
+import { useDeployment } from './use-deployment';
+
+const SAMPLE_COUNT = 30;
+
+export type HistoryRange = '7d' | '30d' | 'all';
+
+const RANGE_SECONDS: Record<HistoryRange, bigint | undefined> = {
+  '7d': 7n * 86400n,
+  '30d': 30n * 86400n,
+  all: undefined,
+};
+
+export interface VaultHistoryPoint {
+  blockNumber: bigint;
+  timestamp: number;
+  tvl: number;
+  sharePrice: number;
+}
+
+/**
+ * Samples totalAssets and the value of one share at SAMPLE_COUNT evenly spaced blocks
+ * across the range. The first block of a 7d/30d range is estimated from the average
+ * block time since deployment; each point carries its block's real timestamp.
+ * Historical reads need an RPC that serves state at past blocks.
+ */
+export function useVaultHistory(range: HistoryRange) {
+  const publicClient = usePublicClient();
+  const { vault, asset } = useSelectedVault();
+  const { deploymentBlock } = useDeployment();
+  const [points, setPoints] = useState<VaultHistoryPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error>();
+
+  useEffect(() => {
+    if (!publicClient || !asset) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(undefined);
+      try {
+        const [head, deployment, shareDecimals, assetDecimals] = await Promise.all([
+          publicClient.getBlock(),
+          publicClient.getBlock({ blockNumber: deploymentBlock }),
+          publicClient.readContract({ address: vault, abi: VaultABI as Abi, functionName: 'decimals' }),
+          publicClient.readContract({ address: asset, abi: ERC20ABI as Abi, functionName: 'decimals' }),
+        ]);
+
+        let startBlock = deploymentBlock;
+        const seconds = RANGE_SECONDS[range];
+        if (seconds !== undefined && head.timestamp > deployment.timestamp) {
+          const blocksPerRange = ((head.number - deploymentBlock) * seconds) / (head.timestamp - deployment.timestamp);
+          if (head.number - blocksPerRange > startBlock) startBlock = head.number - blocksPerRange;
+        }
+
+        const span = head.number - startBlock;
+        const steps = span < BigInt(SAMPLE_COUNT - 1) ? span : BigInt(SAMPLE_COUNT - 1);
+        const sampleBlocks = steps === 0n
+          ? [head.number]
+          : Array.from({ length: Number(steps) + 1 }, (_, i) => startBlock + (span * BigInt(i)) / steps);
+        const oneShare = 10n ** BigInt(shareDecimals as number);
+
+        const samples = await Promise.all(
+          sampleBlocks.map(async (blockNumber): Promise<VaultHistoryPoint | undefined> => {
+            const [block, [totalAssets, shareValue]] = await Promise.all([
+              publicClient.getBlock({ blockNumber }),
+              publicClient.multicall({
+                blockNumber,
+                contracts: [
+                  { address: vault, abi: VaultABI as Abi, functionName: 'totalAssets' },
+                  { address: vault, abi: VaultABI as Abi, functionName: 'convertToAssets', args: [oneShare] },
+                ],
+              }),
+            ]);
+            // Blocks before the vault existed fail and are left out
+            if (totalAssets.status !== 'success' || shareValue.status !== 'success') return undefined;
+            return {
+              blockNumber,
+              timestamp: Number(block.timestamp) * 1000,
+              tvl: Number(formatUnits(totalAssets.result as bigint, assetDecimals as number)),
+              sharePrice: Number(formatUnits(shareValue.result as bigint, assetDecimals as number)),
+            };
+          })
+        );
+
+        if (!cancelled) {
+          setPoints(samples.filter((point): point is VaultHistoryPoint => point !== undefined));
+        }
+      } catch (err) {
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, range, vault, asset, deploymentBlock]);
+
+  return { points, isLoading, error };
+}
@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "../vaults/Yield4GoodVault.sol";
+import "../interfaces/IYieldStrategy.sol";
+
+/// @notice Deploys per-cause Yield4GoodVaults and keeps a registry of them.
+///
+/// `cloneVault` deploys an ERC-1167 minimal clone of `implementation` (cheap, shares
+/// its code). `deployVault` deploys a full standalone copy. The vault's creation
+/// code is larger than the contract size limit, so it cannot be embedded here; the
+/// caller passes it in and it must hash to `vaultCodeHash`.
+///
+/// In both cases `admin` ends up with every vault role and the factory with none.
+/// The strategy must still be handed to the new vault (`transferOwnership`) before
+/// it can invest.
+contract Yield4GoodFactory is Ownable {
+    struct VaultConfig {
+        IERC20 asset;
+        IYieldStrategy strategy;
+        address donationRouter;
+        address beneficiary;
+        string name;
+        string symbol;
+        address admin;
+        string causeName;
+        string uri;
+    }
+
+    struct VaultInfo {
+        address asset;
+        string causeName;
+        string uri;
+        bool isClone;
+        uint256 createdAt;
+    }
+
+    address public immutable implementation;
+    bytes32 public immutable vaultCodeHash;
+
+    address[] private _vaults;
+    mapping(address => VaultInfo) public vaultInfo;
+
+    event VaultCreated(
+        address indexed vault,
+        address indexed asset,
+        address indexed admin,
+        string causeName,
+        string uri,
+        bool isClone
+    );
+    event VaultMetadataUpdated(address indexed vault, string causeName, string uri);
+
+    constructor(address _implementation, bytes32 _vaultCodeHash) Ownable(msg.sender) {
+        require(_implementation != address(0), "Yield4GoodFactory: zero implementation address");
+        implementation = _implementation;
+        vaultCodeHash = _vaultCodeHash;
+    }
+
+    function cloneVault(VaultConfig calldata config) external onlyOwner returns (address vault) {
+        require(bytes(config.causeName).length > 0, "Yield4GoodFactory: empty cause name");
+
+        vault = Clones.clone(implementation);
+        Yield4GoodVault(vault).initialize(
+            config.asset,
+            config.strategy,
+            config.donationRouter,
+            config.beneficiary,
+            config.name,
+            config.symbol,
+            config.admin
+        );
+        _register(vault, config, true);
+    }
+
+    function deployVault(VaultConfig calldata config, bytes calldata creationCode)
+        external
+        onlyOwner
+        returns (address vault)
+    {
+        require(bytes(config.causeName).length > 0, "Yield4GoodFactory: empty cause name");
+        require(config.admin != address(0), "Yield4GoodFactory: zero admin address");
+        require(keccak256(creationCode) == vaultCodeHash, "Yield4GoodFactory: unknown creation code");
+
+        bytes memory initCode = abi.encodePacked(
+            creationCode,
+            abi.encode(
+                config.asset,
+                config.strategy,
+                config.donationRouter,
+                config.beneficiary,
+                config.name,
+                config.symbol
+            )
+        );
+        assembly {
+            vault := create(0, add(initCode, 0x20), mload(initCode))
+        }
+        require(vault != address(0), "Yield4GoodFactory: deployment failed");
+
+        // The constructor gave every role to the factory; hand them to the admin
+        Yield4GoodVault deployed = Yield4GoodVault(vault);
+        bytes32[5] memory roles = [
+            deployed.GUARDIAN_ROLE(),
+            deployed.STRATEGIST_ROLE(),
+            deployed.BENEFICIARY_MANAGER_ROLE(),
+            deployed.KEEPER_ROLE(),
+            deployed.DEFAULT_ADMIN_ROLE()
+        ];
+        for (uint256 i = 0; i < roles.length; i++) {
+            deployed.grantRole(roles[i], config.admin);
+        }
+        for (uint256 i = 0; i < roles.length; i++) {
+            deployed.renounceRole(roles[i], address(this));
+        }
+
+        _register(vault, config, false);
+    }
+
+    /// @notice Update the cause name and URI shown for a registered vault.
+    function setVaultMetadata(
+        address vault,
+        string calldata causeName,
+        string calldata uri
+    ) external onlyOwner {
+        require(isVault(vault), "Yield4GoodFactory: unknown vault");
+        require(bytes(causeName).length > 0, "Yield4GoodFactory: empty cause name");
+
+        vaultInfo[vault].causeName = causeName;
+        vaultInfo[vault].uri = uri;
+        emit VaultMetadataUpdated(vault, causeName, uri);
+    }
+
+    function isVault(address vault) public view returns (bool) {
+        return vaultInfo[vault].createdAt != 0;
+    }
+
+    function vaultCount() external view returns (uint256) {
+        return _vaults.length;
+    }
+
+    /// @notice Every registered vault, oldest first.
+    function getVaults() external view returns (address[] memory) {
+        return _vaults;
+    }
+
+    function _register(address vault, VaultConfig calldata config, bool isClone) private {
+        _vaults.push(vault);
+        vaultInfo[vault] = VaultInfo(address(config.asset), config.causeName, config.uri, isClone, block.timestamp);
+        emit VaultCreated(vault, address(config.asset), config.admin, config.causeName, config.uri, isClone);
+    }
+}
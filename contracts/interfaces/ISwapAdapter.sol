@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Wraps a single DEX behind one call. The adapter pulls `amountIn` of
+/// `tokenIn` from the caller, swaps it for `tokenOut` and sends the output to
+/// `recipient`. Callers must not trust the returned amount alone and should
+/// check their own balance against `minAmountOut`.
+interface ISwapAdapter {
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        address recipient
+    ) external returns (uint256 amountOut);
+}
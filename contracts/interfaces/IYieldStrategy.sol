@@ -8,7 +8,11 @@ interface IYieldStrategy {
     
     function invest(uint256 amount) external;
     
+    /// @dev May return less than `amount` when the strategy is short; the
+    /// difference is a realized loss of principal.
     function divest(uint256 amount) external returns (uint256 actuallyDivested);
     
-    function harvest() external returns (uint256 yieldAmt);
+    /// @dev Sends accrued yield to the caller and writes principal down by any
+    /// loss, reporting both.
+    function harvest() external returns (uint256 yieldAmt, uint256 loss);
 }
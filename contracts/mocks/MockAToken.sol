@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "../interfaces/IAavePool.sol";
+
+/// @notice Rebasing aToken for tests. Balances are stored scaled by the pool's
+/// liquidity index, so raising the index accrues interest to every holder.
+contract MockAToken is ERC20 {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant RAY = 1e27;
+
+    address public immutable pool;
+    address public immutable underlying;
+    uint8 private immutable _decimals;
+
+    modifier onlyPool() {
+        require(msg.sender == pool, "MockAToken: caller is not the pool");
+        _;
+    }
+
+    constructor(
+        address _pool,
+        address _underlying,
+        string memory name,
+        string memory symbol,
+        uint8 decimals_
+    ) ERC20(name, symbol) {
+        pool = _pool;
+        underlying = _underlying;
+        _decimals = decimals_;
+    }
+
+    function decimals() public view virtual override returns (uint8) {
+        return _decimals;
+    }
+
+    function scaledBalanceOf(address account) public view returns (uint256) {
+        return super.balanceOf(account);
+    }
+
+    function balanceOf(address account) public view virtual override returns (uint256) {
+        return Math.mulDiv(super.balanceOf(account), _index(), RAY);
+    }
+
+    function totalSupply() public view virtual override returns (uint256) {
+        return Math.mulDiv(super.totalSupply(), _index(), RAY);
+    }
+
+    function mint(address onBehalfOf, uint256 amount) external onlyPool {
+        _mint(onBehalfOf, Math.mulDiv(amount, RAY, _index()));
+    }
+
+    /// @dev Rounds the scaled burn down so that withdrawing accrued interest
+    /// never leaves the holder below the principal they supplied.
+    function burn(address from, address receiver, uint256 amount) external onlyPool {
+        _burn(from, Math.mulDiv(amount, RAY, _index()));
+        IERC20(underlying).safeTransfer(receiver, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal virtual override {
+        require(from == address(0) || to == address(0), "MockAToken: transfers not supported");
+        super._update(from, to, value);
+    }
+
+    function _index() internal view returns (uint256) {
+        return IAavePool(pool).getReserveNormalizedIncome(underlying);
+    }
+}
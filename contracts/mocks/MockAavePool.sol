@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IAavePool.sol";
+import "./MockAToken.sol";
+
+/// @notice Minimal Aave v3 pool for tests. Each reserve has a liquidity index
+/// that only ever grows; interest must be backed by minting the underlying
+/// to the aToken before the index is raised.
+contract MockAavePool is IAavePool {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant RAY = 1e27;
+
+    mapping(address => MockAToken) public aTokens;
+    mapping(address => uint256) private _liquidityIndex;
+
+    event ReserveInitialized(address indexed asset, address indexed aToken);
+    event LiquidityIndexUpdated(address indexed asset, uint256 index);
+
+    function initReserve(address asset, MockAToken aToken) external {
+        require(address(aTokens[asset]) == address(0), "MockAavePool: reserve exists");
+        aTokens[asset] = aToken;
+        _liquidityIndex[asset] = RAY;
+        emit ReserveInitialized(asset, address(aToken));
+    }
+
+    function setLiquidityIndex(address asset, uint256 index) external {
+        require(address(aTokens[asset]) != address(0), "MockAavePool: unknown reserve");
+        require(index >= _liquidityIndex[asset], "MockAavePool: index decrease");
+        _liquidityIndex[asset] = index;
+        emit LiquidityIndexUpdated(asset, index);
+    }
+
+    function getReserveNormalizedIncome(address asset) external view override returns (uint256) {
+        return _liquidityIndex[asset];
+    }
+
+    function supply(
+        address asset,
+        uint256 amount,
+        address onBehalfOf,
+        uint16
+    ) external override {
+        MockAToken aToken = aTokens[asset];
+        require(address(aToken) != address(0), "MockAavePool: unknown reserve");
+        require(amount > 0, "MockAavePool: zero amount");
+
+        IERC20(asset).safeTransferFrom(msg.sender, address(aToken), amount);
+        aToken.mint(onBehalfOf, amount);
+    }
+
+    function withdraw(
+        address asset,
+        uint256 amount,
+        address to
+    ) external override returns (uint256) {
+        MockAToken aToken = aTokens[asset];
+        require(address(aToken) != address(0), "MockAavePool: unknown reserve");
+
+        uint256 balance = aToken.balanceOf(msg.sender);
+        if (amount == type(uint256).max) {
+            amount = balance;
+        }
+        require(amount > 0, "MockAavePool: zero amount");
+        require(amount <= balance, "MockAavePool: insufficient balance");
+
+        aToken.burn(msg.sender, to, amount);
+        return amount;
+    }
+}
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "../interfaces/IYieldStrategy.sol";
+
+/// @notice Strategy that returns less than requested on divest, like a venue
+/// charging an exit fee or suffering a haircut. The shortfall stays stuck here.
+contract MockLossyStrategy is IYieldStrategy, Ownable {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant MAX_BPS = 10_000;
+
+    address public immutable override asset;
+    uint256 public principal;
+    uint256 public lossBps;
+
+    constructor(address _asset, uint256 _lossBps) Ownable(msg.sender) {
+        require(_asset != address(0), "MockLossyStrategy: zero asset address");
+        asset = _asset;
+        lossBps = _lossBps;
+    }
+
+    function totalAssets() external view override returns (uint256) {
+        return principal - (principal * lossBps) / MAX_BPS;
+    }
+
+    function invest(uint256 amount) external override onlyOwner {
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+        principal += amount;
+    }
+
+    function divest(uint256 amount) external override onlyOwner returns (uint256) {
+        require(amount <= principal, "MockLossyStrategy: insufficient principal");
+
+        principal -= amount;
+        uint256 received = amount - (amount * lossBps) / MAX_BPS;
+        IERC20(asset).safeTransfer(msg.sender, received);
+        return received;
+    }
+
+    function harvest() external view override onlyOwner returns (uint256, uint256) {
+        return (0, 0);
+    }
+
+    function setLossBps(uint256 _lossBps) external {
+        require(_lossBps <= MAX_BPS, "MockLossyStrategy: loss exceeds 100%");
+        lossBps = _lossBps;
+    }
+}
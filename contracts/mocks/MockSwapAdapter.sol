@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/ISwapAdapter.sol";
+
+/// @notice Fixed-rate DEX for tests. Output is paid from the adapter's own
+/// balance, so tests fund it with `tokenOut` first. `minAmountOut` is ignored
+/// on purpose so that callers' slippage checks can be exercised.
+contract MockSwapAdapter is ISwapAdapter {
+    using SafeERC20 for IERC20;
+
+    uint256 public constant RATE_PRECISION = 1e18;
+
+    /// @dev tokenIn => tokenOut => units of tokenOut per unit of tokenIn, scaled by RATE_PRECISION
+    mapping(address => mapping(address => uint256)) public rates;
+
+    event RateSet(address indexed tokenIn, address indexed tokenOut, uint256 rate);
+
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+        emit RateSet(tokenIn, tokenOut, rate);
+    }
+
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256,
+        address recipient
+    ) external override returns (uint256 amountOut) {
+        uint256 rate = rates[tokenIn][tokenOut];
+        require(rate > 0, "MockSwapAdapter: no rate");
+
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        amountOut = (amountIn * rate) / RATE_PRECISION;
+        IERC20(tokenOut).safeTransfer(recipient, amountOut);
+    }
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+
+/// @notice Implementation whose first variable sits where the vault keeps its strategy
+/// list. Used to check that upgrade validation rejects a clashing layout.
+contract MockVaultStorageClash is UUPSUpgradeable {
+    address public owner;
+
+    function _authorizeUpgrade(address) internal override {}
+}
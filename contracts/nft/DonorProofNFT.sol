@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "../vaults/Yield4GoodVault.sol";
+
+/// @notice Soulbound impact certificate for Yield4Good depositors. A depositor
+/// claims a certificate once the yield attributed to them by the vault crosses
+/// the first tier, and upgrades it in place as they cross higher tiers.
+/// Metadata and artwork are generated on-chain from the snapshot taken at claim.
+contract DonorProofNFT is ERC721, Ownable {
+    using Strings for uint256;
+    using Strings for address;
+
+    struct Certificate {
+        uint256 tier;
+        uint256 donated;
+        address beneficiary;
+    }
+
+    Yield4GoodVault public immutable vault;
+
+    uint256[] private _tierThresholds;
+    uint256 private _nextTokenId = 1;
+
+    mapping(address => uint256) public tokenOf;
+    mapping(uint256 => Certificate) public certificates;
+
+    event TiersUpdated(uint256[] thresholds);
+    event CertificateClaimed(
+        address indexed donor,
+        uint256 indexed tokenId,
+        uint256 tier,
+        uint256 donated
+    );
+    /// @dev ERC-5192 minimal soulbound interface
+    event Locked(uint256 tokenId);
+
+    constructor(
+        Yield4GoodVault _vault,
+        uint256[] memory thresholds
+    ) ERC721("Yield4Good Donor Proof", "Y4GPROOF") Ownable(msg.sender) {
+        require(address(_vault) != address(0), "DonorProofNFT: zero vault address");
+        vault = _vault;
+        _setTiers(thresholds);
+    }
+
+    function claim() external returns (uint256 tokenId) {
+        uint256 donated = vault.donatedBy(msg.sender);
+        uint256 tier = tierFor(donated);
+        require(tier > 0, "DonorProofNFT: below first tier");
+
+        tokenId = tokenOf[msg.sender];
+        if (tokenId == 0) {
+            tokenId = _nextTokenId++;
+            tokenOf[msg.sender] = tokenId;
+            _safeMint(msg.sender, tokenId);
+            emit Locked(tokenId);
+        } else {
+            require(tier > certificates[tokenId].tier, "DonorProofNFT: no upgrade available");
+        }
+
+        certificates[tokenId] = Certificate(tier, donated, vault.beneficiary());
+        emit CertificateClaimed(msg.sender, tokenId, tier, donated);
+    }
+
+    function tierFor(uint256 donated) public view returns (uint256 tier) {
+        while (tier < _tierThresholds.length && donated >= _tierThresholds[tier]) {
+            tier++;
+        }
+    }
+
+    function claimableTier(address donor) external view returns (uint256) {
+        return tierFor(vault.donatedBy(donor));
+    }
+
+    function tierThresholds() external view returns (uint256[] memory) {
+        return _tierThresholds;
+    }
+
+    function locked(uint256 tokenId) external view returns (bool) {
+        _requireOwned(tokenId);
+        return true;
+    }
+
+    function setTiers(uint256[] calldata thresholds) external onlyOwner {
+        _setTiers(thresholds);
+    }
+
+    function tokenURI(uint256 tokenId) public view virtual override returns (string memory) {
+        _requireOwned(tokenId);
+        Certificate memory cert = certificates[tokenId];
+        string memory amount = _formatAmount(cert.donated);
+
+        string memory json = string.concat(
+            '{"name":"Yield4Good Donor Proof #',
+            tokenId.toString(),
+            '","description":"Soulbound certificate of yield donated through a Yield4Good vault.",',
+            '"attributes":[{"trait_type":"Tier","value":',
+            cert.tier.toString(),
+            '},{"trait_type":"Donated","value":"',
+            amount,
+            '"},{"trait_type":"Beneficiary","value":"',
+            cert.beneficiary.toHexString(),
+            '"},{"trait_type":"Vault","value":"',
+            address(vault).toHexString(),
+            '"}],"image":"data:image/svg+xml;base64,',
+            Base64.encode(bytes(_svg(cert, amount))),
+            '"}'
+        );
+
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == 0xb45a3c0e || super.supportsInterface(interfaceId);
+    }
+
+    function _update(
+        address to,
+        uint256 tokenId,
+        address auth
+    ) internal virtual override returns (address) {
+        address from = _ownerOf(tokenId);
+        require(from == address(0) || to == address(0), "DonorProofNFT: soulbound");
+        return super._update(to, tokenId, auth);
+    }
+
+    function _setTiers(uint256[] memory thresholds) internal {
+        require(thresholds.length > 0, "DonorProofNFT: no tiers");
+        require(thresholds[0] > 0, "DonorProofNFT: zero threshold");
+        for (uint256 i = 1; i < thresholds.length; i++) {
+            require(thresholds[i] > thresholds[i - 1], "DonorProofNFT: tiers not ascending");
+        }
+        _tierThresholds = thresholds;
+        emit TiersUpdated(thresholds);
+    }
+
+    function _svg(Certificate memory cert, string memory amount) internal view returns (string memory) {
+        return string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">',
+            '<rect width="400" height="400" rx="24" fill="#312e81"/>',
+            '<text x="32" y="64" font-family="sans-serif" font-size="24" fill="#fff">Yield4Good Donor Proof</text>',
+            '<text x="32" y="120" font-family="sans-serif" font-size="18" fill="#c7d2fe">Tier ',
+            cert.tier.toString(),
+            '</text><text x="32" y="200" font-family="sans-serif" font-size="36" fill="#fff">',
+            amount,
+            '</text><text x="32" y="280" font-family="monospace" font-size="10" fill="#c7d2fe">Beneficiary ',
+            cert.beneficiary.toHexString(),
+            '</text><text x="32" y="310" font-family="monospace" font-size="10" fill="#c7d2fe">Vault ',
+            address(vault).toHexString(),
+            "</text></svg>"
+        );
+    }
+
+    function _formatAmount(uint256 amount) internal view returns (string memory) {
+        IERC20Metadata token = IERC20Metadata(vault.asset());
+        uint256 unit = 10 ** token.decimals();
+        uint256 cents = ((amount % unit) * 100) / unit;
+
+        return string.concat(
+            (amount / unit).toString(),
+            cents < 10 ? ".0" : ".",
+            cents.toString(),
+            " ",
+            token.symbol()
+        );
+    }
+}
@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "../interfaces/IWETH.sol";
+
+/// @notice Native ETH entry and exit for a WETH-denominated vault. Deposits wrap
+/// `msg.value` and deposit it for the receiver; exits pull the caller's shares
+/// (the caller must approve the gateway on the vault first), unwrap and send ETH.
+/// The gateway never holds funds between calls.
+contract ETHGateway is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    IWETH public immutable weth;
+    IERC4626 public immutable vault;
+
+    event DepositETH(address indexed caller, address indexed receiver, uint256 assets, uint256 shares);
+    event WithdrawETH(address indexed caller, address indexed receiver, uint256 assets, uint256 shares);
+
+    constructor(IWETH _weth, IERC4626 _vault) {
+        require(address(_weth) != address(0), "ETHGateway: zero WETH address");
+        require(address(_vault) != address(0), "ETHGateway: zero vault address");
+        require(_vault.asset() == address(_weth), "ETHGateway: vault asset is not WETH");
+
+        weth = _weth;
+        vault = _vault;
+    }
+
+    /// @dev Only WETH unwraps may send ETH here; anything else would be stuck.
+    receive() external payable {
+        require(msg.sender == address(weth), "ETHGateway: only WETH");
+    }
+
+    /// @notice Wrap `msg.value` and deposit it into the vault for `receiver`.
+    function depositETH(address receiver) external payable nonReentrant returns (uint256 shares) {
+        require(msg.value > 0, "ETHGateway: zero amount");
+
+        weth.deposit{value: msg.value}();
+        IERC20(address(weth)).forceApprove(address(vault), msg.value);
+        shares = vault.deposit(msg.value, receiver);
+
+        emit DepositETH(msg.sender, receiver, msg.value, shares);
+    }
+
+    /// @notice Burn the caller's shares for exactly `assets` and send them to `receiver` as ETH.
+    function withdrawETH(uint256 assets, address receiver) external nonReentrant returns (uint256 shares) {
+        require(assets > 0, "ETHGateway: zero amount");
+        require(receiver != address(0), "ETHGateway: zero receiver address");
+
+        shares = vault.withdraw(assets, address(this), msg.sender);
+        _unwrapTo(receiver, assets);
+
+        emit WithdrawETH(msg.sender, receiver, assets, shares);
+    }
+
+    /// @notice Redeem `shares` of the caller and send the assets to `receiver` as ETH.
+    function redeemETH(uint256 shares, address receiver) external nonReentrant returns (uint256 assets) {
+        require(shares > 0, "ETHGateway: zero shares");
+        require(receiver != address(0), "ETHGateway: zero receiver address");
+
+        assets = vault.redeem(shares, address(this), msg.sender);
+        _unwrapTo(receiver, assets);
+
+        emit WithdrawETH(msg.sender, receiver, assets, shares);
+    }
+
+    function _unwrapTo(address receiver, uint256 assets) private {
+        weth.withdraw(assets);
+        (bool success, ) = receiver.call{value: assets}("");
+        require(success, "ETHGateway: ETH transfer failed");
+    }
+}
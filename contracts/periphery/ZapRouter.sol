@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "../interfaces/ISwapAdapter.sol";
+import "../interfaces/IWETH.sol";
+
+/// @notice One-call entry into the vault from any token. The input is swapped to
+/// the vault asset through an owner-approved adapter, checked against the caller's
+/// minimum, and deposited for the receiver. The router holds no funds between calls.
+contract ZapRouter is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    IERC4626 public immutable vault;
+    IERC20 public immutable asset;
+    IWETH public immutable weth;
+
+    mapping(address => bool) public approvedAdapters;
+
+    event AdapterSet(address indexed adapter, bool approved);
+    event Zap(
+        address indexed caller,
+        address indexed receiver,
+        address indexed tokenIn,
+        uint256 amountIn,
+        uint256 assets,
+        uint256 shares
+    );
+
+    constructor(IERC4626 _vault, IWETH _weth) Ownable(msg.sender) {
+        require(address(_vault) != address(0), "ZapRouter: zero vault address");
+        require(address(_weth) != address(0), "ZapRouter: zero WETH address");
+
+        vault = _vault;
+        asset = IERC20(_vault.asset());
+        weth = _weth;
+    }
+
+    function setAdapter(address adapter, bool approved) external onlyOwner {
+        require(adapter != address(0), "ZapRouter: zero adapter address");
+        approvedAdapters[adapter] = approved;
+        emit AdapterSet(adapter, approved);
+    }
+
+    /// @notice Swap `amountIn` of `tokenIn` to the vault asset and deposit it for
+    /// `receiver`. Reverts unless at least `minAssetsOut` of the asset arrives.
+    function zap(
+        IERC20 tokenIn,
+        uint256 amountIn,
+        ISwapAdapter adapter,
+        uint256 minAssetsOut,
+        address receiver
+    ) external nonReentrant returns (uint256 shares) {
+        require(amountIn > 0, "ZapRouter: zero amount");
+
+        tokenIn.safeTransferFrom(msg.sender, address(this), amountIn);
+        shares = _swapAndDeposit(tokenIn, amountIn, adapter, minAssetsOut, receiver);
+    }
+
+    /// @notice Wrap `msg.value` to WETH, then zap it like any other token.
+    function zapETH(
+        ISwapAdapter adapter,
+        uint256 minAssetsOut,
+        address receiver
+    ) external payable nonReentrant returns (uint256 shares) {
+        require(msg.value > 0, "ZapRouter: zero amount");
+
+        weth.deposit{value: msg.value}();
+        shares = _swapAndDeposit(IERC20(address(weth)), msg.value, adapter, minAssetsOut, receiver);
+    }
+
+    function _swapAndDeposit(
+        IERC20 tokenIn,
+        uint256 amountIn,
+        ISwapAdapter adapter,
+        uint256 minAssetsOut,
+        address receiver
+    ) private returns (uint256 shares) {
+        require(approvedAdapters[address(adapter)], "ZapRouter: adapter not approved");
+        require(address(tokenIn) != address(asset), "ZapRouter: input is the vault asset");
+
+        // Measure what actually arrived instead of trusting the adapter's return value
+        uint256 balanceBefore = asset.balanceOf(address(this));
+        tokenIn.forceApprove(address(adapter), amountIn);
+        adapter.swap(address(tokenIn), address(asset), amountIn, minAssetsOut, address(this));
+        tokenIn.forceApprove(address(adapter), 0);
+        uint256 assets = asset.balanceOf(address(this)) - balanceBefore;
+        require(assets >= minAssetsOut, "ZapRouter: insufficient output");
+
+        asset.forceApprove(address(vault), assets);
+        shares = vault.deposit(assets, receiver);
+
+        emit Zap(msg.sender, receiver, address(tokenIn), amountIn, assets, shares);
+    }
+}
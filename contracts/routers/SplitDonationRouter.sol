@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "../interfaces/IDonationRouter.sol";
+
+/// @notice Donation router that splits every donation across a weighted list
+/// of beneficiaries. Weights are in basis points and must sum to 100%; the
+/// rounding remainder goes to the last recipient so nothing is left behind.
+/// Until a split is configured, donations go to the `beneficiary` argument.
+///
+/// A split redirects donations just like replacing the vault's beneficiary, so split
+/// changes wait out `splitDelay` as well: the owner queues a split, anyone watching
+/// `getPendingSplits()` can react, then the owner executes it. Deploy with a delay at
+/// least as long as the vault's `timelockDelay`, or the router weakens its notice period.
+contract SplitDonationRouter is IDonationRouter, Ownable {
+    using SafeERC20 for IERC20;
+
+    struct Split {
+        address recipient;
+        uint16 weightBps;
+    }
+
+    uint256 public constant MAX_BPS = 10_000;
+    uint256 public constant MAX_SPLITS = 20;
+    uint256 public constant MAX_SPLIT_DELAY = 30 days;
+
+    uint256 public immutable splitDelay;
+
+    Split[] private _splits;
+    Split[] private _pendingSplits;
+    uint256 public pendingSplitsEta;
+
+    event SplitsQueued(address[] recipients, uint16[] weightsBps, uint256 eta);
+    event SplitsCancelled();
+    event SplitsUpdated(address[] recipients, uint16[] weightsBps);
+
+    constructor(uint256 _splitDelay) Ownable(msg.sender) {
+        require(_splitDelay <= MAX_SPLIT_DELAY, "SplitDonationRouter: delay too long");
+        splitDelay = _splitDelay;
+    }
+
+    function donate(
+        address asset,
+        address beneficiary,
+        uint256 amount
+    ) external override {
+        require(asset != address(0), "SplitDonationRouter: zero asset address");
+        require(beneficiary != address(0), "SplitDonationRouter: zero beneficiary address");
+        require(amount > 0, "SplitDonationRouter: zero amount");
+
+        uint256 count = _splits.length;
+        if (count == 0) {
+            IERC20(asset).safeTransferFrom(msg.sender, beneficiary, amount);
+            emit YieldDonated(asset, beneficiary, amount, msg.sender);
+            return;
+        }
+
+        uint256 remaining = amount;
+        for (uint256 i = 0; i < count; i++) {
+            Split memory split = _splits[i];
+            uint256 share = i == count - 1
+                ? remaining
+                : (amount * split.weightBps) / MAX_BPS;
+
+            if (share == 0) {
+                continue;
+            }
+
+            remaining -= share;
+            IERC20(asset).safeTransferFrom(msg.sender, split.recipient, share);
+            emit YieldDonated(asset, split.recipient, share, msg.sender);
+        }
+    }
+
+    /// @notice Starts the notice period for replacing the split. An empty list queues a
+    /// return to the `beneficiary` fallback.
+    function queueSplits(
+        address[] calldata recipients,
+        uint16[] calldata weightsBps
+    ) external onlyOwner {
+        require(pendingSplitsEta == 0, "SplitDonationRouter: splits already queued");
+        require(recipients.length == weightsBps.length, "SplitDonationRouter: length mismatch");
+        require(recipients.length <= MAX_SPLITS, "SplitDonationRouter: too many splits");
+
+        uint256 totalBps;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "SplitDonationRouter: zero recipient address");
+            require(weightsBps[i] > 0, "SplitDonationRouter: zero weight");
+            for (uint256 j = 0; j < i; j++) {
+                require(recipients[j] != recipients[i], "SplitDonationRouter: duplicate recipient");
+            }
+            totalBps += weightsBps[i];
+            _pendingSplits.push(Split(recipients[i], weightsBps[i]));
+        }
+
+        require(
+            recipients.length == 0 || totalBps == MAX_BPS,
+            "SplitDonationRouter: weights must sum to 100%"
+        );
+
+        uint256 eta = block.timestamp + splitDelay;
+        pendingSplitsEta = eta;
+        emit SplitsQueued(recipients, weightsBps, eta);
+    }
+
+    function executeSplits() external onlyOwner {
+        require(pendingSplitsEta != 0, "SplitDonationRouter: splits not queued");
+        require(block.timestamp >= pendingSplitsEta, "SplitDonationRouter: delay not expired");
+
+        delete _splits;
+        for (uint256 i = 0; i < _pendingSplits.length; i++) {
+            _splits.push(_pendingSplits[i]);
+        }
+        delete _pendingSplits;
+        pendingSplitsEta = 0;
+
+        (address[] memory recipients, uint16[] memory weightsBps) = _unpack(_splits);
+        emit SplitsUpdated(recipients, weightsBps);
+    }
+
+    function cancelSplits() external onlyOwner {
+        require(pendingSplitsEta != 0, "SplitDonationRouter: splits not queued");
+        delete _pendingSplits;
+        pendingSplitsEta = 0;
+        emit SplitsCancelled();
+    }
+
+    function getSplits()
+        external
+        view
+        returns (address[] memory recipients, uint16[] memory weightsBps)
+    {
+        return _unpack(_splits);
+    }
+
+    /// @notice The queued split and when it can execute; `eta` is zero if none is queued.
+    function getPendingSplits()
+        external
+        view
+        returns (address[] memory recipients, uint16[] memory weightsBps, uint256 eta)
+    {
+        (recipients, weightsBps) = _unpack(_pendingSplits);
+        eta = pendingSplitsEta;
+    }
+
+    function splitCount() external view returns (uint256) {
+        return _splits.length;
+    }
+
+    function _unpack(
+        Split[] storage splits
+    ) internal view returns (address[] memory recipients, uint16[] memory weightsBps) {
+        uint256 count = splits.length;
+        recipients = new address[](count);
+        weightsBps = new uint16[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            recipients[i] = splits[i].recipient;
+            weightsBps[i] = splits[i].weightBps;
+        }
+    }
+}
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "../interfaces/IYieldStrategy.sol";
+import "../interfaces/IAavePool.sol";
+
+contract AaveV3Strategy is IYieldStrategy, Ownable {
+    using SafeERC20 for IERC20;
+
+    address public immutable override asset;
+    IAavePool public immutable pool;
+    IERC20 public immutable aToken;
+    uint256 public principal;
+
+    event Invested(uint256 amount);
+    event Divested(uint256 amount);
+    event Harvested(uint256 yieldAmount);
+    event LossRealized(uint256 amount);
+
+    constructor(address _asset, IAavePool _pool, IERC20 _aToken) Ownable(msg.sender) {
+        require(_asset != address(0), "AaveV3Strategy: zero asset address");
+        require(address(_pool) != address(0), "AaveV3Strategy: zero pool address");
+        require(address(_aToken) != address(0), "AaveV3Strategy: zero aToken address");
+        asset = _asset;
+        pool = _pool;
+        aToken = _aToken;
+    }
+
+    function totalAssets() external view override returns (uint256) {
+        return aToken.balanceOf(address(this));
+    }
+
+    function pendingYield() public view returns (uint256) {
+        uint256 aBalance = aToken.balanceOf(address(this));
+        return aBalance > principal ? aBalance - principal : 0;
+    }
+
+    function invest(uint256 amount) external override onlyOwner {
+        require(amount > 0, "AaveV3Strategy: zero amount");
+
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+        IERC20(asset).forceApprove(address(pool), amount);
+        pool.supply(asset, amount, address(this), 0);
+        principal += amount;
+
+        emit Invested(amount);
+    }
+
+    function divest(uint256 amount) external override onlyOwner returns (uint256) {
+        require(amount > 0, "AaveV3Strategy: zero amount");
+        require(amount <= principal, "AaveV3Strategy: insufficient principal");
+
+        // Never ask the pool for more than the aToken balance; the shortfall is a loss
+        uint256 aBalance = aToken.balanceOf(address(this));
+        uint256 toWithdraw = amount < aBalance ? amount : aBalance;
+
+        principal -= amount;
+        uint256 withdrawn = toWithdraw > 0 ? pool.withdraw(asset, toWithdraw, msg.sender) : 0;
+        if (withdrawn < amount) {
+            emit LossRealized(amount - withdrawn);
+        }
+
+        emit Divested(withdrawn);
+        return withdrawn;
+    }
+
+    function harvest() external override onlyOwner returns (uint256, uint256) {
+        uint256 aBalance = aToken.balanceOf(address(this));
+
+        if (aBalance < principal) {
+            uint256 loss = principal - aBalance;
+            principal = aBalance;
+            emit LossRealized(loss);
+            return (0, loss);
+        }
+
+        uint256 yieldAmount = aBalance - principal;
+        if (yieldAmount > 0) {
+            yieldAmount = pool.withdraw(asset, yieldAmount, msg.sender);
+            emit Harvested(yieldAmount);
+        }
+
+        return (yieldAmount, 0);
+    }
+}
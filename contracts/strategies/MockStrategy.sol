@@ -12,8 +12,13 @@ contract MockStrategy is IYieldStrategy, Ownable {
     address public immutable override asset;
     uint256 public principal;
     uint256 public simulatedYield;
+    uint256 public simulatedLoss;
+
+    address private constant LOSS_SINK = 0x000000000000000000000000000000000000dEaD;
 
     event YieldSet(uint256 newYield);
+    event LossSimulated(uint256 amount);
+    event LossRealized(uint256 amount);
     event Invested(uint256 amount);
     event Divested(uint256 amount);
     event Harvested(uint256 yieldAmount);
@@ -24,7 +29,7 @@ contract MockStrategy is IYieldStrategy, Ownable {
     }
 
     function totalAssets() external view override returns (uint256) {
-        return principal + simulatedYield;
+        return principal - simulatedLoss + simulatedYield;
     }
 
     function invest(uint256 amount) external override onlyOwner {
@@ -40,27 +45,52 @@ contract MockStrategy is IYieldStrategy, Ownable {
         require(amount > 0, "MockStrategy: zero amount");
         require(amount <= principal, "MockStrategy: insufficient principal");
         
+        // Pay out what is left; any shortfall realizes part of the simulated loss
+        uint256 available = principal - simulatedLoss;
+        uint256 received = amount;
+        if (amount > available) {
+            received = available;
+            simulatedLoss -= amount - available;
+            emit LossRealized(amount - available);
+        }
+
         principal -= amount;
-        IERC20(asset).safeTransfer(msg.sender, amount);
+        IERC20(asset).safeTransfer(msg.sender, received);
         
-        emit Divested(amount);
-        return amount;
+        emit Divested(received);
+        return received;
     }
 
-    function harvest() external override onlyOwner returns (uint256) {
+    function harvest() external override onlyOwner returns (uint256, uint256) {
         uint256 yieldAmount = simulatedYield;
+        uint256 loss = simulatedLoss;
         
         if (yieldAmount > 0) {
             simulatedYield = 0;
             IERC20(asset).safeTransfer(msg.sender, yieldAmount);
             emit Harvested(yieldAmount);
         }
+
+        if (loss > 0) {
+            simulatedLoss = 0;
+            principal -= loss;
+            emit LossRealized(loss);
+        }
         
-        return yieldAmount;
+        return (yieldAmount, loss);
     }
 
     function setSimulatedYield(uint256 _yield) external {
         simulatedYield = _yield;
         emit YieldSet(_yield);
     }
+
+    /// @notice Burns `amount` of invested principal to mimic a hack or bad debt.
+    /// The loss stays unrealized until the next divest shortfall or harvest.
+    function simulateLoss(uint256 amount) external {
+        require(amount <= principal - simulatedLoss, "MockStrategy: loss exceeds principal");
+        simulatedLoss += amount;
+        IERC20(asset).safeTransfer(LOSS_SINK, amount);
+        emit LossSimulated(amount);
+    }
 }
@@ -1,36 +1,155 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC4626Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "../interfaces/IYieldStrategy.sol";
 import "../interfaces/IDonationRouter.sol";
 
-contract Yield4GoodVault is ERC4626, Ownable, ReentrancyGuard {
+/// @dev Admin actions are split across roles so operations and governance can be held
+/// by different accounts. DEFAULT_ADMIN_ROLE grants and revokes every role and owns the
+/// vault-wide limits; the deployer starts with all roles.
+///
+/// The vault can also run behind minimal clones (see Yield4GoodFactory) or an ERC-1967
+/// proxy (see Yield4GoodVaultUpgradeable), so it builds on OpenZeppelin's upgradeable
+/// contracts: everything per-vault is set by `initialize`, and the inherited ERC-20,
+/// ERC-4626, access control and reentrancy state lives in ERC-7201 namespaced slots.
+/// The vault's own variables below are laid out sequentially from slot 0.
+contract Yield4GoodVault is ERC4626Upgradeable, AccessControlUpgradeable, ReentrancyGuardUpgradeable {
     using SafeERC20 for IERC20;
 
-    IYieldStrategy public strategy;
+    /// @dev Changes that can redirect donations or principal go through a timelock.
+    enum ChangeType {
+        Beneficiary,
+        DonationRouter,
+        StrategyMigration,
+        TimelockDelay,
+        Upgrade,
+        StrategyAllocation
+    }
+
+    /// @dev `oldValue` is the beneficiary/router being replaced, the strategy being
+    /// migrated away from or the current implementation; `newDelay` is only used by
+    /// TimelockDelay changes. Upgrade changes only apply to Yield4GoodVaultUpgradeable.
+    /// StrategyAllocation changes keep the strategy in `newValue` and the new params in
+    /// `pendingAllocation`, which is only meaningful while that change is queued.
+    struct PendingChange {
+        address oldValue;
+        address newValue;
+        uint256 newDelay;
+        uint256 eta;
+    }
+
+    struct StrategyParams {
+        uint256 targetBps;
+        uint256 maxDebt;
+        uint256 debt;
+        bool active;
+    }
+
+    struct Allocation {
+        uint256 targetBps;
+        uint256 maxDebt;
+    }
+
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    bytes32 public constant STRATEGIST_ROLE = keccak256("STRATEGIST_ROLE");
+    bytes32 public constant BENEFICIARY_MANAGER_ROLE = keccak256("BENEFICIARY_MANAGER_ROLE");
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
+    uint256 public constant MAX_BPS = 10_000;
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint256 public constant MAX_STRATEGIES = 10;
+
+    IYieldStrategy[] public strategies;
+    IYieldStrategy[] public withdrawalQueue;
+    mapping(address => StrategyParams) public strategyParams;
+    uint256 public totalTargetBps;
+    uint256 public totalDebt;
+    uint256 public migrationLossToleranceBps;
+
     address public donationRouter;
     address public beneficiary;
     bool public paused;
     uint256 public totalDonated;
 
+    // Realized strategy losses. `unrecoveredLoss` is repaid from future yield
+    // before anything is donated.
+    uint256 public totalLoss;
+    uint256 public unrecoveredLoss;
+
+    // Advisory thresholds for keepers; see `harvestTrigger`.
+    uint256 public minHarvestAmount;
+    uint256 public minHarvestInterval;
+    uint256 public lastHarvest;
+
+    uint256 public timelockDelay;
+    mapping(ChangeType => PendingChange) public pendingChanges;
+
+    // TVL guardrails; type(uint256).max means uncapped.
+    uint256 public depositCap;
+    uint256 public accountDepositCap;
+
+    // Share-weighted donation attribution: every harvest credits
+    // `yield / totalSupply` to each share, checkpointed on balance changes.
+    uint256 private constant DONATION_PRECISION = 1e18;
+    uint256 public donatedPerShare;
+    mapping(address => uint256) private _donatedPerSharePaid;
+    mapping(address => uint256) private _donationsCredited;
+
+    Allocation public pendingAllocation;
+
     event Harvest(uint256 yieldAmount, address indexed beneficiary);
     event BeneficiaryChanged(address indexed newBeneficiary);
     event DonationRouterChanged(address indexed newRouter);
-    event StrategyChanged(address indexed newStrategy);
+    event StrategyAdded(address indexed strategy, uint256 targetBps, uint256 maxDebt);
+    event StrategyUpdated(address indexed strategy, uint256 targetBps, uint256 maxDebt);
+    event StrategyRemoved(address indexed strategy);
+    event StrategyHarvested(address indexed strategy, uint256 yieldAmount);
+    event LossReported(address indexed strategy, uint256 loss);
+    event LossRecovered(uint256 amount);
+    event WithdrawalQueueUpdated(address[] queue);
+    event HarvestTriggerParamsChanged(uint256 minHarvestAmount, uint256 minHarvestInterval);
+    event DepositCapChanged(uint256 cap);
+    event AccountDepositCapChanged(uint256 cap);
+    event Rebalanced(uint256 totalAssets);
+    event StrategyMigrated(
+        address indexed oldStrategy,
+        address indexed newStrategy,
+        uint256 amount,
+        uint256 loss
+    );
+    event MigrationLossToleranceChanged(uint256 toleranceBps);
+    event ChangeQueued(
+        ChangeType indexed changeType,
+        address oldValue,
+        address newValue,
+        uint256 newDelay,
+        uint256 eta
+    );
+    event ChangeCancelled(ChangeType indexed changeType);
+    event TimelockDelayChanged(uint256 delay);
     event Paused(bool status);
     event EmergencyDivest(uint256 amount);
 
     modifier whenNotPaused() {
-        require(!paused, "Yield4GoodVault: paused");
+        _requireNotPaused();
         _;
     }
 
+    modifier onlyKeeperOrStrategist() {
+        require(
+            hasRole(KEEPER_ROLE, msg.sender) || hasRole(STRATEGIST_ROLE, msg.sender),
+            "Yield4GoodVault: caller is not keeper or strategist"
+        );
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
     constructor(
         IERC20 _asset,
         IYieldStrategy _strategy,
@@ -38,19 +157,154 @@ contract Yield4GoodVault is ERC4626, Ownable, ReentrancyGuard {
         address _beneficiary,
         string memory _name,
         string memory _symbol
-    ) ERC4626(_asset) ERC20(_name, _symbol) Ownable(msg.sender) {
-        require(address(_strategy) != address(0), "Yield4GoodVault: zero strategy address");
+    ) {
+        // A zero asset deploys a bare implementation for clones and proxies; it can never be initialized
+        if (address(_asset) == address(0)) {
+            _disableInitializers();
+        } else {
+            initialize(_asset, _strategy, _donationRouter, _beneficiary, _name, _symbol, msg.sender);
+        }
+    }
+
+    /// @notice Set up a clone or proxy. Directly deployed vaults run this from the
+    /// constructor, and `admin` receives every role.
+    function initialize(
+        IERC20 _asset,
+        IYieldStrategy _strategy,
+        address _donationRouter,
+        address _beneficiary,
+        string memory _name,
+        string memory _symbol,
+        address admin
+    ) public initializer {
+        require(address(_asset) != address(0), "Yield4GoodVault: zero asset address");
         require(_donationRouter != address(0), "Yield4GoodVault: zero router address");
         require(_beneficiary != address(0), "Yield4GoodVault: zero beneficiary address");
-        require(address(_asset) == _strategy.asset(), "Yield4GoodVault: asset mismatch");
+        require(admin != address(0), "Yield4GoodVault: zero admin address");
 
-        strategy = _strategy;
+        __ERC20_init(_name, _symbol);
+        __ERC4626_init(_asset);
+        __AccessControl_init();
+        __ReentrancyGuard_init();
+
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(GUARDIAN_ROLE, admin);
+        _grantRole(STRATEGIST_ROLE, admin);
+        _grantRole(BENEFICIARY_MANAGER_ROLE, admin);
+        _grantRole(KEEPER_ROLE, admin);
+
+        _addStrategy(_strategy, MAX_BPS, type(uint256).max);
         donationRouter = _donationRouter;
         beneficiary = _beneficiary;
+        timelockDelay = 2 days;
+        depositCap = type(uint256).max;
+        accountDepositCap = type(uint256).max;
+    }
+
+    /// @notice Idle assets plus principal allocated to strategies. Unharvested yield
+    /// is excluded so that share price cannot rise with yield owed to the beneficiary;
+    /// see `pendingDonation()`. A strategy worth less than its debt is counted at its
+    /// current value, so unrealized losses are shared by all holders immediately.
+    function totalAssets() public view virtual override returns (uint256 total) {
+        total = IERC20(asset()).balanceOf(address(this));
+        for (uint256 i = 0; i < strategies.length; i++) {
+            uint256 strategyAssets = strategies[i].totalAssets();
+            uint256 debt = strategyParams[address(strategies[i])].debt;
+            total += strategyAssets < debt ? strategyAssets : debt;
+        }
+    }
+
+    /// @notice Yield accrued in strategies that the next harvest will donate, after
+    /// repaying `unrecoveredLoss`.
+    function pendingDonation() public view returns (uint256) {
+        uint256 pending = _pendingYield();
+        return pending > unrecoveredLoss ? pending - unrecoveredLoss : 0;
+    }
+
+    /// @notice Whether calling `harvest()` now is worthwhile for a keeper: the vault is
+    /// not paused, `minHarvestInterval` has passed since the last harvest, and the
+    /// pending yield reaches `minHarvestAmount` and exceeds `gasCostInAsset`, the
+    /// caller's estimate of the harvest gas cost denominated in the vault asset.
+    /// Yield that would repay `unrecoveredLoss` counts, since harvesting it restores
+    /// share price.
+    function harvestTrigger(uint256 gasCostInAsset) external view returns (bool) {
+        if (paused || block.timestamp < lastHarvest + minHarvestInterval) {
+            return false;
+        }
+
+        uint256 pending = _pendingYield();
+        return pending > 0 && pending >= minHarvestAmount && pending > gasCostInAsset;
+    }
+
+    function getStrategies() external view returns (IYieldStrategy[] memory) {
+        return strategies;
+    }
+
+    function getWithdrawalQueue() external view returns (IYieldStrategy[] memory) {
+        return withdrawalQueue;
+    }
+
+    /// @notice Assets `receiver` can still deposit under the global and per-account caps.
+    /// Zero while paused, as EIP-4626 requires when deposits are disabled.
+    function maxDeposit(address receiver) public view virtual override returns (uint256) {
+        if (paused) {
+            return 0;
+        }
+        uint256 globalRoom = _globalDepositRoom();
+        uint256 accountRoom = _accountDepositRoom(receiver);
+        return globalRoom < accountRoom ? globalRoom : accountRoom;
+    }
+
+    function maxMint(address receiver) public view virtual override returns (uint256) {
+        uint256 maxAssets = maxDeposit(receiver);
+        if (maxAssets == type(uint256).max) {
+            return type(uint256).max;
+        }
+        return _convertToShares(maxAssets, Math.Rounding.Floor);
     }
 
-    function totalAssets() public view virtual override returns (uint256) {
-        return IERC20(asset()).balanceOf(address(this)) + strategy.totalAssets();
+    /// @dev Previews stay available while paused: EIP-4626 previews must not account
+    /// for deposit limits, so only `maxDeposit`/`maxMint` reflect the pause.
+    function deposit(
+        uint256 assets,
+        address receiver
+    ) public virtual override whenNotPaused returns (uint256) {
+        _checkDepositCaps(receiver, assets);
+        return super.deposit(assets, receiver);
+    }
+
+    function mint(
+        uint256 shares,
+        address receiver
+    ) public virtual override whenNotPaused returns (uint256) {
+        _checkDepositCaps(receiver, previewMint(shares));
+        return super.mint(shares, receiver);
+    }
+
+    /// @notice Approves the vault with an ERC-2612 signature and deposits in one transaction.
+    /// @dev A failed permit is ignored when the allowance is already in place, so a permit
+    /// front-run by someone else submitting the same signature cannot block the deposit.
+    function depositWithPermit(
+        uint256 assets,
+        address receiver,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256) {
+        try IERC20Permit(asset()).permit(msg.sender, address(this), assets, deadline, v, r, s) {} catch {
+            require(
+                IERC20(asset()).allowance(msg.sender, address(this)) >= assets,
+                "Yield4GoodVault: permit failed"
+            );
+        }
+        return deposit(assets, receiver);
+    }
+
+    /// @notice Debt the strategy should hold given the current vault size:
+    /// its share of `totalAssets()` by target weight, capped at `maxDebt`.
+    function targetDebt(IYieldStrategy _strategy) public view returns (uint256) {
+        return _targetDebt(_strategy, totalAssets());
     }
 
     function _deposit(
@@ -58,14 +312,9 @@ contract Yield4GoodVault is ERC4626, Ownable, ReentrancyGuard {
         address receiver,
         uint256 assets,
         uint256 shares
-    ) internal virtual override whenNotPaused nonReentrant {
+    ) internal virtual override nonReentrant {
         super._deposit(caller, receiver, assets, shares);
-        
-        uint256 balance = IERC20(asset()).balanceOf(address(this));
-        if (balance > 0) {
-            IERC20(asset()).forceApprove(address(strategy), balance);
-            strategy.invest(balance);
-        }
+        _investIdle(totalAssets());
     }
 
     function _withdraw(
@@ -79,52 +328,507 @@ contract Yield4GoodVault is ERC4626, Ownable, ReentrancyGuard {
         
         if (assets > idle) {
             uint256 shortfall = assets - idle;
-            uint256 divested = strategy.divest(shortfall);
+            uint256 divested = _divestFromQueue(shortfall);
             require(divested >= shortfall, "Yield4GoodVault: insufficient liquidity");
         }
         
         super._withdraw(caller, receiver, owner, assets, shares);
     }
 
+    function _update(address from, address to, uint256 value) internal virtual override {
+        _checkpointDonations(from);
+        _checkpointDonations(to);
+        super._update(from, to, value);
+    }
+
+    function _checkpointDonations(address account) internal {
+        if (account == address(0)) {
+            return;
+        }
+        _donationsCredited[account] = donatedBy(account);
+        _donatedPerSharePaid[account] = donatedPerShare;
+    }
+
     function harvest() external nonReentrant whenNotPaused {
-        uint256 yieldAmount = strategy.harvest();
-        
-        if (yieldAmount > 0) {
-            IERC20(asset()).forceApprove(donationRouter, yieldAmount);
-            IDonationRouter(donationRouter).donate(asset(), beneficiary, yieldAmount);
-            
-            totalDonated += yieldAmount;
-            emit Harvest(yieldAmount, beneficiary);
+        uint256 yieldAmount;
+        for (uint256 i = 0; i < strategies.length; i++) {
+            yieldAmount += _harvestStrategy(strategies[i]);
         }
+        lastHarvest = block.timestamp;
+        _donate(_recoverLoss(yieldAmount));
     }
 
-    function setBeneficiary(address _beneficiary) external onlyOwner {
+    function donatedBy(address account) public view returns (uint256) {
+        uint256 pending = (balanceOf(account) * (donatedPerShare - _donatedPerSharePaid[account])) /
+            DONATION_PRECISION;
+        return _donationsCredited[account] + pending;
+    }
+
+    /// @notice Starts the notice period for redirecting donations to `_beneficiary`.
+    function queueBeneficiary(address _beneficiary) external onlyRole(BENEFICIARY_MANAGER_ROLE) {
         require(_beneficiary != address(0), "Yield4GoodVault: zero beneficiary address");
-        beneficiary = _beneficiary;
-        emit BeneficiaryChanged(_beneficiary);
+        _queueChange(ChangeType.Beneficiary, beneficiary, _beneficiary, 0);
     }
 
-    function setDonationRouter(address _donationRouter) external onlyOwner {
+    function executeBeneficiary() external onlyRole(BENEFICIARY_MANAGER_ROLE) {
+        PendingChange memory change = _takeMaturedChange(ChangeType.Beneficiary);
+        beneficiary = change.newValue;
+        emit BeneficiaryChanged(change.newValue);
+    }
+
+    /// @notice Starts the notice period for routing donations through `_donationRouter`.
+    function queueDonationRouter(address _donationRouter) external onlyRole(BENEFICIARY_MANAGER_ROLE) {
         require(_donationRouter != address(0), "Yield4GoodVault: zero router address");
-        donationRouter = _donationRouter;
-        emit DonationRouterChanged(_donationRouter);
+        _queueChange(ChangeType.DonationRouter, donationRouter, _donationRouter, 0);
     }
 
-    function setStrategy(IYieldStrategy _strategy) external onlyOwner {
-        require(address(_strategy) != address(0), "Yield4GoodVault: zero strategy address");
-        require(address(asset()) == _strategy.asset(), "Yield4GoodVault: asset mismatch");
-        strategy = _strategy;
-        emit StrategyChanged(address(_strategy));
+    function executeDonationRouter() external onlyRole(BENEFICIARY_MANAGER_ROLE) {
+        PendingChange memory change = _takeMaturedChange(ChangeType.DonationRouter);
+        donationRouter = change.newValue;
+        emit DonationRouterChanged(change.newValue);
+    }
+
+    /// @notice Changes the notice period for changes queued afterwards. Shortening it is
+    /// itself subject to the current delay, so donors always get the advertised notice.
+    function queueTimelockDelay(uint256 delay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(delay <= MAX_TIMELOCK_DELAY, "Yield4GoodVault: delay exceeds maximum");
+        _queueChange(ChangeType.TimelockDelay, address(0), address(0), delay);
+    }
+
+    function executeTimelockDelay() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        PendingChange memory change = _takeMaturedChange(ChangeType.TimelockDelay);
+        timelockDelay = change.newDelay;
+        emit TimelockDelayChanged(change.newDelay);
+    }
+
+    /// @notice Drops a queued change. Callable by the role that queues it or a guardian.
+    function cancelChange(ChangeType changeType) external {
+        require(
+            hasRole(_changeRole(changeType), msg.sender) || hasRole(GUARDIAN_ROLE, msg.sender),
+            "Yield4GoodVault: caller cannot cancel"
+        );
+        require(pendingChanges[changeType].eta != 0, "Yield4GoodVault: change not queued");
+        delete pendingChanges[changeType];
+        emit ChangeCancelled(changeType);
+    }
+
+    /// @notice Moves capital so every strategy holds its target debt. Over-allocated
+    /// strategies are divested first so the freed assets can fund the rest.
+    function rebalance() external onlyKeeperOrStrategist nonReentrant whenNotPaused {
+        uint256 total = totalAssets();
+
+        for (uint256 i = 0; i < strategies.length; i++) {
+            IYieldStrategy _strategy = strategies[i];
+            StrategyParams storage params = strategyParams[address(_strategy)];
+            uint256 target = _targetDebt(_strategy, total);
+            if (params.debt > target) {
+                _divest(_strategy, params.debt - target);
+            }
+        }
+
+        _investIdle(total);
+        emit Rebalanced(total);
+    }
+
+    /// @notice Starts the notice period for replacing `oldStrategy` with `newStrategy`.
+    function queueStrategyMigration(
+        IYieldStrategy oldStrategy,
+        IYieldStrategy newStrategy
+    ) external onlyRole(STRATEGIST_ROLE) {
+        _validateMigration(oldStrategy, newStrategy);
+        _queueChange(ChangeType.StrategyMigration, address(oldStrategy), address(newStrategy), 0);
+    }
+
+    /// @notice Replaces the queued old strategy with the new one: harvests and donates the
+    /// old strategy's yield, divests its entire debt and invests it in the new one. The new
+    /// strategy inherits the old one's target, max debt and withdrawal queue position.
+    /// Reverts if the divested amount falls short of the old debt by more than
+    /// `migrationLossToleranceBps`; an accepted shortfall is recorded as a loss.
+    function executeStrategyMigration() external onlyRole(STRATEGIST_ROLE) nonReentrant {
+        PendingChange memory change = _takeMaturedChange(ChangeType.StrategyMigration);
+        IYieldStrategy oldStrategy = IYieldStrategy(change.oldValue);
+        IYieldStrategy newStrategy = IYieldStrategy(change.newValue);
+        _validateMigration(oldStrategy, newStrategy);
+
+        _donate(_recoverLoss(_harvestStrategy(oldStrategy)));
+
+        // Read after harvesting, which may have written the debt down
+        StrategyParams memory params = strategyParams[address(oldStrategy)];
+        uint256 divested = params.debt > 0 ? _divest(oldStrategy, params.debt) : 0;
+        uint256 loss = params.debt > divested ? params.debt - divested : 0;
+        require(
+            loss * MAX_BPS <= params.debt * migrationLossToleranceBps,
+            "Yield4GoodVault: migration loss exceeds tolerance"
+        );
+
+        delete strategyParams[address(oldStrategy)];
+        strategyParams[address(newStrategy)] = StrategyParams(params.targetBps, params.maxDebt, 0, true);
+        _replaceInList(strategies, oldStrategy, newStrategy);
+        _replaceInList(withdrawalQueue, oldStrategy, newStrategy);
+
+        if (divested > 0) {
+            _invest(newStrategy, divested);
+        }
+
+        emit StrategyMigrated(address(oldStrategy), address(newStrategy), divested, loss);
+    }
+
+    function setMigrationLossTolerance(uint256 toleranceBps) external onlyRole(STRATEGIST_ROLE) {
+        require(toleranceBps <= MAX_BPS, "Yield4GoodVault: tolerance exceeds 100%");
+        migrationLossToleranceBps = toleranceBps;
+        emit MigrationLossToleranceChanged(toleranceBps);
     }
 
-    function setPaused(bool _paused) external onlyOwner {
+    /// @notice Starts the notice period for adding `_strategy`, or for raising the target or
+    /// max debt of an active one. Either can route principal into a new destination, so
+    /// both wait for the timelock; lowering an allocation goes through `updateStrategy`.
+    function queueStrategyAllocation(
+        IYieldStrategy _strategy,
+        uint256 targetBps,
+        uint256 maxDebt
+    ) external onlyRole(STRATEGIST_ROLE) {
+        _validateAllocation(_strategy, targetBps);
+        pendingAllocation = Allocation(targetBps, maxDebt);
+        _queueChange(ChangeType.StrategyAllocation, address(0), address(_strategy), 0);
+    }
+
+    /// @notice Adds the queued strategy, or applies its queued params if it is already active.
+    function executeStrategyAllocation() external onlyRole(STRATEGIST_ROLE) {
+        PendingChange memory change = _takeMaturedChange(ChangeType.StrategyAllocation);
+        IYieldStrategy _strategy = IYieldStrategy(change.newValue);
+        Allocation memory allocation = pendingAllocation;
+
+        if (strategyParams[address(_strategy)].active) {
+            _validateAllocation(_strategy, allocation.targetBps);
+            _setAllocation(_strategy, allocation.targetBps, allocation.maxDebt);
+        } else {
+            _addStrategy(_strategy, allocation.targetBps, allocation.maxDebt);
+        }
+    }
+
+    /// @notice Lowers a strategy's target or max debt immediately. Raising either one
+    /// must be queued with `queueStrategyAllocation`.
+    function updateStrategy(
+        IYieldStrategy _strategy,
+        uint256 targetBps,
+        uint256 maxDebt
+    ) external onlyRole(STRATEGIST_ROLE) {
+        _requireActive(_strategy);
+        StrategyParams storage params = strategyParams[address(_strategy)];
+        require(
+            targetBps <= params.targetBps && maxDebt <= params.maxDebt,
+            "Yield4GoodVault: not a decrease"
+        );
+        _setAllocation(_strategy, targetBps, maxDebt);
+    }
+
+    /// @notice Removes an empty strategy. Set its target to zero and rebalance first.
+    function removeStrategy(IYieldStrategy _strategy) external onlyRole(STRATEGIST_ROLE) {
+        _requireActive(_strategy);
+        StrategyParams storage params = strategyParams[address(_strategy)];
+        require(params.debt == 0, "Yield4GoodVault: strategy has debt");
+
+        totalTargetBps -= params.targetBps;
+        delete strategyParams[address(_strategy)];
+        _removeFromList(strategies, _strategy);
+        _removeFromList(withdrawalQueue, _strategy);
+        emit StrategyRemoved(address(_strategy));
+    }
+
+    function setWithdrawalQueue(IYieldStrategy[] calldata queue) external onlyRole(STRATEGIST_ROLE) {
+        require(queue.length == strategies.length, "Yield4GoodVault: queue length mismatch");
+
+        address[] memory addresses = new address[](queue.length);
+        for (uint256 i = 0; i < queue.length; i++) {
+            _requireActive(queue[i]);
+            for (uint256 j = 0; j < i; j++) {
+                require(queue[j] != queue[i], "Yield4GoodVault: duplicate strategy");
+            }
+            addresses[i] = address(queue[i]);
+        }
+
+        withdrawalQueue = queue;
+        emit WithdrawalQueueUpdated(addresses);
+    }
+
+    function setHarvestTriggerParams(
+        uint256 _minHarvestAmount,
+        uint256 _minHarvestInterval
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        minHarvestAmount = _minHarvestAmount;
+        minHarvestInterval = _minHarvestInterval;
+        emit HarvestTriggerParamsChanged(_minHarvestAmount, _minHarvestInterval);
+    }
+
+    function setDepositCap(uint256 cap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        depositCap = cap;
+        emit DepositCapChanged(cap);
+    }
+
+    function setAccountDepositCap(uint256 cap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        accountDepositCap = cap;
+        emit AccountDepositCapChanged(cap);
+    }
+
+    function setPaused(bool _paused) external onlyRole(GUARDIAN_ROLE) {
         paused = _paused;
         emit Paused(_paused);
     }
 
-    function emergencyDivest(uint256 amount) external onlyOwner {
+    function emergencyDivest(uint256 amount) external onlyRole(STRATEGIST_ROLE) {
         require(amount > 0, "Yield4GoodVault: zero amount");
-        uint256 divested = strategy.divest(amount);
+        uint256 divested = _divestFromQueue(amount);
         emit EmergencyDivest(divested);
     }
+
+    function _requireNotPaused() internal view {
+        require(!paused, "Yield4GoodVault: paused");
+    }
+
+    function _queueChange(
+        ChangeType changeType,
+        address oldValue,
+        address newValue,
+        uint256 newDelay
+    ) internal {
+        require(pendingChanges[changeType].eta == 0, "Yield4GoodVault: change already queued");
+        uint256 eta = block.timestamp + timelockDelay;
+        pendingChanges[changeType] = PendingChange(oldValue, newValue, newDelay, eta);
+        emit ChangeQueued(changeType, oldValue, newValue, newDelay, eta);
+    }
+
+    function _takeMaturedChange(ChangeType changeType) internal returns (PendingChange memory change) {
+        change = pendingChanges[changeType];
+        require(change.eta != 0, "Yield4GoodVault: change not queued");
+        require(block.timestamp >= change.eta, "Yield4GoodVault: timelock not expired");
+        delete pendingChanges[changeType];
+    }
+
+    function _changeRole(ChangeType changeType) internal pure returns (bytes32) {
+        if (changeType == ChangeType.StrategyMigration || changeType == ChangeType.StrategyAllocation) {
+            return STRATEGIST_ROLE;
+        }
+        if (changeType == ChangeType.TimelockDelay || changeType == ChangeType.Upgrade) {
+            return DEFAULT_ADMIN_ROLE;
+        }
+        return BENEFICIARY_MANAGER_ROLE;
+    }
+
+    function _validateMigration(IYieldStrategy oldStrategy, IYieldStrategy newStrategy) internal view {
+        _requireActive(oldStrategy);
+        _validateNewStrategy(newStrategy);
+    }
+
+    function _requireActive(IYieldStrategy _strategy) internal view {
+        require(strategyParams[address(_strategy)].active, "Yield4GoodVault: strategy not active");
+    }
+
+    function _validateNewStrategy(IYieldStrategy _strategy) internal view {
+        require(address(_strategy) != address(0), "Yield4GoodVault: zero strategy address");
+        require(address(asset()) == _strategy.asset(), "Yield4GoodVault: asset mismatch");
+        require(!strategyParams[address(_strategy)].active, "Yield4GoodVault: strategy already added");
+    }
+
+    /// @dev Checks `targetBps` as the new target of an active strategy, or `_strategy` as
+    /// a new one; run both when an allocation is queued and when it is applied.
+    function _validateAllocation(IYieldStrategy _strategy, uint256 targetBps) internal view {
+        StrategyParams storage params = strategyParams[address(_strategy)];
+        if (!params.active) {
+            _validateNewStrategy(_strategy);
+            require(strategies.length < MAX_STRATEGIES, "Yield4GoodVault: too many strategies");
+        }
+        require(
+            totalTargetBps - params.targetBps + targetBps <= MAX_BPS,
+            "Yield4GoodVault: target exceeds 100%"
+        );
+    }
+
+    /// @dev `_strategy` must not be active yet; see `_validateAllocation`.
+    function _addStrategy(IYieldStrategy _strategy, uint256 targetBps, uint256 maxDebt) internal {
+        _validateAllocation(_strategy, targetBps);
+
+        strategyParams[address(_strategy)] = StrategyParams(targetBps, maxDebt, 0, true);
+        totalTargetBps += targetBps;
+        strategies.push(_strategy);
+        withdrawalQueue.push(_strategy);
+        emit StrategyAdded(address(_strategy), targetBps, maxDebt);
+    }
+
+    function _setAllocation(IYieldStrategy _strategy, uint256 targetBps, uint256 maxDebt) internal {
+        StrategyParams storage params = strategyParams[address(_strategy)];
+        totalTargetBps = totalTargetBps - params.targetBps + targetBps;
+        params.targetBps = targetBps;
+        params.maxDebt = maxDebt;
+        emit StrategyUpdated(address(_strategy), targetBps, maxDebt);
+    }
+
+    function _checkDepositCaps(address receiver, uint256 assets) internal view {
+        require(assets <= _globalDepositRoom(), "Yield4GoodVault: deposit cap exceeded");
+        require(assets <= _accountDepositRoom(receiver), "Yield4GoodVault: account deposit cap exceeded");
+    }
+
+    function _globalDepositRoom() internal view returns (uint256) {
+        if (depositCap == type(uint256).max) {
+            return type(uint256).max;
+        }
+        uint256 total = totalAssets();
+        return total < depositCap ? depositCap - total : 0;
+    }
+
+    /// @dev Measured against the current value of the receiver's shares, so shares
+    /// received by transfer count towards the cap too.
+    function _accountDepositRoom(address receiver) internal view returns (uint256) {
+        if (accountDepositCap == type(uint256).max) {
+            return type(uint256).max;
+        }
+        uint256 held = _convertToAssets(balanceOf(receiver), Math.Rounding.Floor);
+        return held < accountDepositCap ? accountDepositCap - held : 0;
+    }
+
+    /// @dev Yield accrued across strategies, before repaying `unrecoveredLoss`.
+    function _pendingYield() internal view returns (uint256 pending) {
+        for (uint256 i = 0; i < strategies.length; i++) {
+            uint256 strategyAssets = strategies[i].totalAssets();
+            uint256 debt = strategyParams[address(strategies[i])].debt;
+            if (strategyAssets > debt) {
+                pending += strategyAssets - debt;
+            }
+        }
+    }
+
+    function _targetDebt(IYieldStrategy _strategy, uint256 total) internal view returns (uint256) {
+        StrategyParams storage params = strategyParams[address(_strategy)];
+        uint256 target = (total * params.targetBps) / MAX_BPS;
+        return target < params.maxDebt ? target : params.maxDebt;
+    }
+
+    /// @dev Tops up strategies below their target debt from idle assets, in registration order.
+    function _investIdle(uint256 total) internal {
+        uint256 idle = IERC20(asset()).balanceOf(address(this));
+
+        for (uint256 i = 0; i < strategies.length && idle > 0; i++) {
+            IYieldStrategy _strategy = strategies[i];
+            uint256 target = _targetDebt(_strategy, total);
+            uint256 debt = strategyParams[address(_strategy)].debt;
+            if (debt >= target) {
+                continue;
+            }
+
+            uint256 amount = target - debt < idle ? target - debt : idle;
+            _invest(_strategy, amount);
+            idle -= amount;
+        }
+    }
+
+    function _invest(IYieldStrategy _strategy, uint256 amount) internal {
+        IERC20(asset()).forceApprove(address(_strategy), amount);
+        _strategy.invest(amount);
+        strategyParams[address(_strategy)].debt += amount;
+        totalDebt += amount;
+    }
+
+    /// @dev Pulls up to `amount` from strategies in withdrawal queue order. A strategy
+    /// worth less than its debt may pay out pro rata, so the debt requested from it is
+    /// grossed up by debt / value to still cover what is needed.
+    function _divestFromQueue(uint256 amount) internal returns (uint256 divested) {
+        for (uint256 i = 0; i < withdrawalQueue.length && divested < amount; i++) {
+            IYieldStrategy _strategy = withdrawalQueue[i];
+            uint256 debt = strategyParams[address(_strategy)].debt;
+            uint256 needed = amount - divested;
+            uint256 value = _strategy.totalAssets();
+            if (value < debt) {
+                needed = value > needed ? Math.mulDiv(needed, debt, value, Math.Rounding.Ceil) : debt;
+            }
+            uint256 request = needed < debt ? needed : debt;
+            if (request > 0) {
+                divested += _divest(_strategy, request);
+            }
+        }
+    }
+
+    /// @dev Any shortfall between `amount` and what the strategy returns is a realized loss.
+    function _divest(IYieldStrategy _strategy, uint256 amount) internal returns (uint256 divested) {
+        divested = _strategy.divest(amount);
+        strategyParams[address(_strategy)].debt -= amount;
+        totalDebt -= amount;
+        if (divested < amount) {
+            _recordLoss(_strategy, amount - divested);
+        }
+    }
+
+    function _harvestStrategy(IYieldStrategy _strategy) internal returns (uint256 yieldAmount) {
+        uint256 loss;
+        (yieldAmount, loss) = _strategy.harvest();
+        if (yieldAmount > 0) {
+            emit StrategyHarvested(address(_strategy), yieldAmount);
+        }
+        if (loss > 0) {
+            StrategyParams storage params = strategyParams[address(_strategy)];
+            uint256 writeDown = loss < params.debt ? loss : params.debt;
+            params.debt -= writeDown;
+            totalDebt -= writeDown;
+            _recordLoss(_strategy, writeDown);
+        }
+    }
+
+    function _recordLoss(IYieldStrategy _strategy, uint256 loss) internal {
+        totalLoss += loss;
+        unrecoveredLoss += loss;
+        emit LossReported(address(_strategy), loss);
+    }
+
+    /// @dev Keeps as much of `yieldAmount` idle as is needed to repay `unrecoveredLoss`,
+    /// which lifts share price back up, and returns what is left to donate.
+    function _recoverLoss(uint256 yieldAmount) internal returns (uint256) {
+        uint256 recovered = yieldAmount < unrecoveredLoss ? yieldAmount : unrecoveredLoss;
+        if (recovered == 0) {
+            return yieldAmount;
+        }
+
+        unrecoveredLoss -= recovered;
+        emit LossRecovered(recovered);
+        return yieldAmount - recovered;
+    }
+
+    function _donate(uint256 yieldAmount) internal {
+        if (yieldAmount == 0) {
+            return;
+        }
+
+        IERC20(asset()).forceApprove(donationRouter, yieldAmount);
+        IDonationRouter(donationRouter).donate(asset(), beneficiary, yieldAmount);
+
+        uint256 supply = totalSupply();
+        if (supply > 0) {
+            donatedPerShare += (yieldAmount * DONATION_PRECISION) / supply;
+        }
+
+        totalDonated += yieldAmount;
+        emit Harvest(yieldAmount, beneficiary);
+    }
+
+    function _replaceInList(
+        IYieldStrategy[] storage list,
+        IYieldStrategy oldStrategy,
+        IYieldStrategy newStrategy
+    ) internal {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == oldStrategy) {
+                list[i] = newStrategy;
+                return;
+            }
+        }
+    }
+
+    function _removeFromList(IYieldStrategy[] storage list, IYieldStrategy _strategy) internal {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == _strategy) {
+                for (uint256 j = i; j < list.length - 1; j++) {
+                    list[j] = list[j + 1];
+                }
+                list.pop();
+                return;
+            }
+        }
+    }
 }
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+// Not used here; imported so the proxy artifact is built for the Ignition modules
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import "./Yield4GoodVault.sol";
+
+/// @notice Yield4GoodVault behind an ERC-1967 proxy with UUPS upgrades. The vault
+/// already builds on OpenZeppelin's upgradeable contracts and sets everything up in
+/// `initialize`, so this variant only adds the upgrade path. The proxy is deployed with
+/// `initialize(...)` as its constructor call; the implementation itself is locked.
+///
+/// Upgrades can move principal, so they go through the same timelock as other
+/// sensitive changes: the admin queues the new implementation, waits out
+/// `timelockDelay`, then calls `upgradeToAndCall`.
+///
+/// Storage: new variables may only be appended to Yield4GoodVault. This contract
+/// must not declare any, since they would sit where later vault variables go.
+/// Check every new implementation with the OpenZeppelin Upgrades plugin's
+/// `validateUpgrade` before queueing it.
+contract Yield4GoodVaultUpgradeable is Yield4GoodVault, UUPSUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor()
+        Yield4GoodVault(IERC20(address(0)), IYieldStrategy(address(0)), address(0), address(0), "", "")
+    {}
+
+    /// @dev Not checked beyond the timelock: a bad implementation can be cancelled
+    /// before it matures, and `upgradeToAndCall` rejects addresses without code.
+    function queueUpgrade(address newImplementation) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _queueChange(ChangeType.Upgrade, ERC1967Utils.getImplementation(), newImplementation, 0);
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(DEFAULT_ADMIN_ROLE) {
+        PendingChange memory change = _takeMaturedChange(ChangeType.Upgrade);
+        require(change.newValue == newImplementation, "Yield4GoodVaultUpgradeable: implementation not queued");
+    }
+}
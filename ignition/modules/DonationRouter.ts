@@ -0,0 +1,7 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("DonationRouter", (m) => {
+  const router = m.contract("DonationRouter");
+
+  return { router };
+});
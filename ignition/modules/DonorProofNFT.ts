@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import Yield4GoodVaultModule from "./Yield4GoodVault";
+
+/**
+ * Impact certificates for the vault's depositors. `tiers` are strictly ascending
+ * donation thresholds in vault asset units. The deployer owns the NFT and can change
+ * the tiers later with `setTiers`.
+ */
+export default buildModule("DonorProofNFT", (m) => {
+  const tiers = m.getParameter<bigint[]>("tiers");
+
+  const { vault, strategy, router } = m.useModule(Yield4GoodVaultModule);
+
+  const nft = m.contract("DonorProofNFT", [vault, tiers]);
+
+  return { nft, vault, strategy, router };
+});
@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import Yield4GoodVaultModule from "./Yield4GoodVault";
+
+/** Native ETH deposits for a WETH vault. `weth` must be the vault asset. */
+export default buildModule("ETHGateway", (m) => {
+  const weth = m.getParameter<string>("weth");
+
+  const { vault, strategy, router } = m.useModule(Yield4GoodVaultModule);
+
+  const gateway = m.contract("ETHGateway", [weth, vault]);
+
+  return { gateway, vault, strategy, router };
+});
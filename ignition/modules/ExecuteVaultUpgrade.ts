@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/** Second half of an upgrade: points the proxy at the queued implementation. */
+export default buildModule("ExecuteVaultUpgrade", (m) => {
+  const proxy = m.getParameter<string>("proxy");
+  const implementation = m.getParameter<string>("implementation");
+
+  const vault = m.contractAt("Yield4GoodVaultUpgradeable", proxy, { id: "Vault" });
+
+  m.call(vault, "upgradeToAndCall", [implementation, "0x"]);
+
+  return { vault };
+});
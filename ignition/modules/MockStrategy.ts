@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/** Demo strategy for `asset`. It stays owned by the deployer until a vault takes it over. */
+export default buildModule("MockStrategy", (m) => {
+  const asset = m.getParameter<string>("asset");
+
+  const strategy = m.contract("MockStrategy", [asset]);
+
+  return { strategy };
+});
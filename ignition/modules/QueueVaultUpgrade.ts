@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * First half of an upgrade: deploys the current Yield4GoodVaultUpgradeable source
+ * as a new implementation and queues it on the proxy behind the vault timelock.
+ * Run ExecuteVaultUpgrade with the returned implementation once it matures.
+ */
+export default buildModule("QueueVaultUpgrade", (m) => {
+  const proxy = m.getParameter<string>("proxy");
+
+  const vault = m.contractAt("Yield4GoodVaultUpgradeable", proxy, { id: "Vault" });
+  const implementation = m.contract("Yield4GoodVaultUpgradeable", [], { id: "NewImplementation" });
+
+  m.call(vault, "queueUpgrade", [implementation]);
+
+  return { vault, implementation };
+});
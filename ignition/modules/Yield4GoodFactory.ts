@@ -0,0 +1,53 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import DonationRouterModule from "./DonationRouter";
+import MockStrategyModule from "./MockStrategy";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Per-cause vault factory: a locked Yield4GoodVault implementation, the factory and
+ * a first clone for `causeName`, on top of the router and strategy modules. The clone
+ * is found through the factory's registry. `vaultCodeHash` is the keccak256 of the
+ * Yield4GoodVault creation code, which `deployVault` checks.
+ */
+export default buildModule("Yield4GoodFactory", (m) => {
+  const asset = m.getParameter<string>("asset");
+  const beneficiary = m.getParameter<string>("beneficiary");
+  const vaultCodeHash = m.getParameter<string>("vaultCodeHash");
+  const name = m.getParameter("name", "Yield4Good Public Goods");
+  const symbol = m.getParameter("symbol", "Y4G");
+  const causeName = m.getParameter("causeName", "Public Goods");
+  const causeURI = m.getParameter("causeURI", "");
+  const admin = m.getAccount(0);
+
+  const { router } = m.useModule(DonationRouterModule);
+  const { strategy } = m.useModule(MockStrategyModule);
+
+  // A zero asset leaves the implementation uninitialized; clones are set up by the factory
+  const implementation = m.contract(
+    "Yield4GoodVault",
+    [ZERO_ADDRESS, ZERO_ADDRESS, ZERO_ADDRESS, ZERO_ADDRESS, "", ""],
+    { id: "Implementation" }
+  );
+  const factory = m.contract("Yield4GoodFactory", [implementation, vaultCodeHash]);
+
+  const cloneVault = m.call(factory, "cloneVault", [
+    {
+      asset,
+      strategy,
+      donationRouter: router,
+      beneficiary,
+      name,
+      symbol,
+      admin,
+      causeName,
+      uri: causeURI,
+    },
+  ]);
+  const vaultAddress = m.readEventArgument(cloneVault, "VaultCreated", "vault");
+  const vault = m.contractAt("Yield4GoodVault", vaultAddress, { id: "Vault" });
+
+  m.call(strategy, "transferOwnership", [vault]);
+
+  return { factory, implementation, vault, router, strategy };
+});
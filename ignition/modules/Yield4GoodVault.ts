@@ -0,0 +1,24 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import DonationRouterModule from "./DonationRouter";
+import MockStrategyModule from "./MockStrategy";
+
+/**
+ * Vault for `asset` on top of the router and strategy modules. The last step hands
+ * the strategy to the vault, which must own it before it can invest. The deployer
+ * holds every vault role.
+ */
+export default buildModule("Yield4GoodVault", (m) => {
+  const asset = m.getParameter<string>("asset");
+  const beneficiary = m.getParameter<string>("beneficiary");
+  const name = m.getParameter("name", "Yield4Good Vault");
+  const symbol = m.getParameter("symbol", "Y4G");
+
+  const { router } = m.useModule(DonationRouterModule);
+  const { strategy } = m.useModule(MockStrategyModule);
+
+  const vault = m.contract("Yield4GoodVault", [asset, strategy, router, beneficiary, name, symbol]);
+
+  m.call(strategy, "transferOwnership", [vault]);
+
+  return { vault, strategy, router };
+});
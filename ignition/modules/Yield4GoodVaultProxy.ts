@@ -0,0 +1,36 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import DonationRouterModule from "./DonationRouter";
+import MockStrategyModule from "./MockStrategy";
+
+/**
+ * Upgradeable vault: a locked Yield4GoodVaultUpgradeable implementation behind an
+ * ERC1967Proxy that is initialized in its constructor, on top of the router and
+ * strategy modules. The deployer holds every vault role.
+ */
+export default buildModule("Yield4GoodVaultProxy", (m) => {
+  const asset = m.getParameter<string>("asset");
+  const beneficiary = m.getParameter<string>("beneficiary");
+  const name = m.getParameter("name", "Yield4Good Vault");
+  const symbol = m.getParameter("symbol", "Y4G");
+  const admin = m.getAccount(0);
+
+  const { router } = m.useModule(DonationRouterModule);
+  const { strategy } = m.useModule(MockStrategyModule);
+  const implementation = m.contract("Yield4GoodVaultUpgradeable");
+
+  const initialize = m.encodeFunctionCall(implementation, "initialize", [
+    asset,
+    strategy,
+    router,
+    beneficiary,
+    name,
+    symbol,
+    admin,
+  ]);
+  const proxy = m.contract("ERC1967Proxy", [implementation, initialize]);
+  const vault = m.contractAt("Yield4GoodVaultUpgradeable", proxy, { id: "Vault" });
+
+  m.call(strategy, "transferOwnership", [vault]);
+
+  return { vault, proxy, implementation, router, strategy };
+});
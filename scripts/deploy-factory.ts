@@ -0,0 +1,42 @@
+import hre, { ethers } from "hardhat";
+import Yield4GoodFactoryModule from "../ignition/modules/Yield4GoodFactory";
+import { readNetworkParameters, recordIgnitionDeployment } from "./ignition-deployment";
+
+/**
+ * Deploys the factory and a first cloned vault with ignition/parameters/<network>.json
+ * and records Yield4GoodFactory in the deployment manifest. The clone is not recorded
+ * separately: the dashboard lists it from the factory's registry. Journaled under
+ * ignition/deployments/chain-<id>-factory.
+ */
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+
+  console.log("Deploying factory with the account:", deployer.address);
+  console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
+
+  const parameters = readNetworkParameters("Yield4GoodFactory");
+  const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+  parameters.Yield4GoodFactory.vaultCodeHash = ethers.keccak256(VaultFactory.bytecode);
+
+  const deploymentId = `chain-${chainId}-factory`;
+  const deployed = await hre.ignition.deploy(Yield4GoodFactoryModule, {
+    parameters,
+    deploymentId,
+    displayUi: true,
+  });
+  console.log("First vault:", await deployed.vault.getAddress());
+
+  await recordIgnitionDeployment(
+    deploymentId,
+    { Yield4GoodFactory: await deployed.factory.getAddress() },
+    "Yield4GoodFactory"
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,38 @@
+import hre, { ethers } from "hardhat";
+import Yield4GoodVaultProxyModule from "../ignition/modules/Yield4GoodVaultProxy";
+import { readNetworkParameters, recordIgnitionDeployment } from "./ignition-deployment";
+
+/**
+ * Deploys the upgradeable vault with ignition/parameters/<network>.json and records
+ * the proxy in the deployment manifest as Yield4GoodVaultProxy. It gets its own
+ * router and strategy, journaled under ignition/deployments/chain-<id>-upgradeable.
+ */
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+
+  console.log("Deploying upgradeable vault with the account:", deployer.address);
+  console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
+
+  const parameters = readNetworkParameters("Yield4GoodVaultProxy");
+
+  const deploymentId = `chain-${chainId}-upgradeable`;
+  const deployed = await hre.ignition.deploy(Yield4GoodVaultProxyModule, {
+    parameters,
+    deploymentId,
+    displayUi: true,
+  });
+
+  await recordIgnitionDeployment(
+    deploymentId,
+    { Yield4GoodVaultProxy: await deployed.vault.getAddress() },
+    "Yield4GoodVaultProxy"
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
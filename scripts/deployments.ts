@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Deployed addresses per chain ID. Written by the deploy scripts and read by the
+ * other scripts and by the frontend, which is why it lives with the app's ABIs.
+ */
+export const MANIFEST_FILE = path.join(__dirname, "..", "app", "src", "contracts", "deployments.json");
+
+export interface Deployment {
+  network: string;
+  /** Earliest block recorded on the chain; log backfills start here so they cover every contract */
+  deploymentBlock: number;
+  /** Contract name => address */
+  contracts: Record<string, string>;
+}
+
+export type Manifest = Record<string, Deployment>;
+
+export function readManifest(file: string = MANIFEST_FILE): Manifest {
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Manifest;
+}
+
+/**
+ * Records a deployment for `chainId`. Contracts are merged into the chain's entry and
+ * the earlier deployment block is kept, so a factory deployed after a standalone vault
+ * does not hide the vault's older logs. Each deploy script records its contracts under
+ * their own names.
+ */
+export function recordDeployment(
+  chainId: bigint | number,
+  deployment: Deployment,
+  file: string = MANIFEST_FILE
+): Deployment {
+  const manifest = readManifest(file);
+  const previous = manifest[chainId.toString()];
+  const entry: Deployment = {
+    network: deployment.network,
+    deploymentBlock: Math.min(deployment.deploymentBlock, previous?.deploymentBlock ?? Infinity),
+    contracts: { ...previous?.contracts, ...deployment.contracts },
+  };
+  manifest[chainId.toString()] = entry;
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return entry;
+}
+
+export function getDeployment(chainId: bigint | number, file: string = MANIFEST_FILE): Deployment {
+  const deployment = readManifest(file)[chainId.toString()];
+  if (!deployment) {
+    throw new Error(`No deployment recorded for chain ${chainId}; run the deploy script first`);
+  }
+  return deployment;
+}
+
+export function getDeployedAddress(
+  chainId: bigint | number,
+  name: string,
+  file: string = MANIFEST_FILE
+): string {
+  const address = getDeployment(chainId, file).contracts[name];
+  if (!address) {
+    throw new Error(`No ${name} recorded for chain ${chainId}`);
+  }
+  return address;
+}
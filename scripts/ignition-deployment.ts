@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { DeploymentParameters, listTransactions } from "@nomicfoundation/ignition-core";
+import { HardhatArtifactResolver } from "@nomicfoundation/hardhat-ignition/helpers";
+import { MANIFEST_FILE, recordDeployment } from "./deployments";
+
+/**
+ * Reads ignition/parameters/<network>.json, which the deploy scripts share. `moduleId`
+ * is the module whose beneficiary the deployment needs.
+ */
+export function readNetworkParameters(moduleId: string): DeploymentParameters {
+  const network = hre.network.name;
+  const parametersFile = path.join(hre.config.paths.ignition, "parameters", `${network}.json`);
+  if (!fs.existsSync(parametersFile)) {
+    throw new Error(`No Ignition parameters for ${network}; create ${parametersFile}`);
+  }
+  const parameters: DeploymentParameters = JSON.parse(fs.readFileSync(parametersFile, "utf8"));
+  const beneficiary = parameters[moduleId]?.beneficiary;
+  if (!beneficiary || beneficiary === ethers.ZeroAddress) {
+    throw new Error(`Set ${moduleId}.beneficiary in ${parametersFile}`);
+  }
+  return parameters;
+}
+
+/**
+ * Records `contracts` in the deployment manifest. The deployment block is the block
+ * that deployed `contracts[primary]`, looked up in the journal of `deploymentId`; it
+ * throws if that transaction or its receipt cannot be found.
+ * The in-process network only prints the addresses, since they are gone when the
+ * script exits.
+ */
+export async function recordIgnitionDeployment(
+  deploymentId: string,
+  contracts: Record<string, string>,
+  primary: string
+) {
+  const network = hre.network.name;
+  if (network === "hardhat") {
+    console.log("\nIn-process network; not writing the deployment manifest");
+    console.log(contracts);
+    return;
+  }
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const deploymentDir = path.join(hre.config.paths.ignition, "deployments", deploymentId);
+  const transactions = await listTransactions(deploymentDir, new HardhatArtifactResolver(hre));
+  const primaryDeployment = transactions.find(
+    (tx) => tx.address?.toLowerCase() === contracts[primary].toLowerCase()
+  );
+  // Block 0 would stick as the chain's earliest block and send every backfill to genesis
+  if (!primaryDeployment) {
+    throw new Error(`No ${primary} deployment transaction in ${deploymentDir}`);
+  }
+  const receipt = await ethers.provider.getTransactionReceipt(primaryDeployment.txHash);
+  if (!receipt) {
+    throw new Error(`No receipt for the ${primary} deployment transaction ${primaryDeployment.txHash}`);
+  }
+
+  const entry = recordDeployment(chainId, {
+    network,
+    deploymentBlock: receipt.blockNumber,
+    contracts,
+  });
+
+  console.log("\n=== Deployment Summary ===");
+  for (const [name, address] of Object.entries(contracts)) console.log(`${name}:`, address);
+  console.log("Deployment block:", receipt.blockNumber);
+  console.log("Manifest contracts on this chain:", Object.keys(entry.contracts).join(", "));
+  console.log(`\nAddresses written to ${path.relative(process.cwd(), MANIFEST_FILE)}`);
+}
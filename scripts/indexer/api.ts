@@ -0,0 +1,115 @@
+import http from "http";
+import { ethers } from "ethers";
+import { IndexedEvent, IndexerState } from "./store";
+
+export interface Totals {
+  lastBlock: number;
+  totalDeposited: string;
+  totalWithdrawn: string;
+  totalHarvested: string;
+  totalDonated: string;
+  depositors: number;
+  harvests: number;
+}
+
+export interface AccountHistory {
+  account: string;
+  deposited: string;
+  withdrawn: string;
+  events: IndexedEvent[];
+}
+
+export interface BeneficiaryTotal {
+  beneficiary: string;
+  donated: string;
+  donations: number;
+}
+
+function sum(events: IndexedEvent[], type: IndexedEvent["type"]): bigint {
+  return events
+    .filter((event) => event.type === type)
+    .reduce((total, event) => total + BigInt(event.assets), 0n);
+}
+
+export function getTotals(state: IndexerState): Totals {
+  const depositors = new Set(
+    state.events.filter((event) => event.type === "Deposit").map((event) => event.account)
+  );
+  return {
+    lastBlock: state.lastBlock,
+    totalDeposited: sum(state.events, "Deposit").toString(),
+    totalWithdrawn: sum(state.events, "Withdraw").toString(),
+    totalHarvested: sum(state.events, "Harvest").toString(),
+    totalDonated: sum(state.events, "YieldDonated").toString(),
+    depositors: depositors.size,
+    harvests: state.events.filter((event) => event.type === "Harvest").length,
+  };
+}
+
+export function getAccountHistory(state: IndexerState, account: string): AccountHistory {
+  const normalized = account.toLowerCase();
+  const events = state.events.filter((event) => event.account === normalized);
+  return {
+    account: normalized,
+    deposited: sum(events, "Deposit").toString(),
+    withdrawn: sum(events, "Withdraw").toString(),
+    events,
+  };
+}
+
+/** Donations per recipient, largest first. Split routers produce one entry per recipient. */
+export function getBeneficiaryTotals(state: IndexerState): BeneficiaryTotal[] {
+  const totals = new Map<string, { donated: bigint; donations: number }>();
+  for (const event of state.events) {
+    if (event.type !== "YieldDonated") continue;
+    const entry = totals.get(event.beneficiary!) ?? { donated: 0n, donations: 0 };
+    entry.donated += BigInt(event.assets);
+    entry.donations += 1;
+    totals.set(event.beneficiary!, entry);
+  }
+
+  return [...totals.entries()]
+    .sort(([, a], [, b]) => (a.donated === b.donated ? 0 : a.donated > b.donated ? -1 : 1))
+    .map(([beneficiary, { donated, donations }]) => ({
+      beneficiary,
+      donated: donated.toString(),
+      donations,
+    }));
+}
+
+/**
+ * Read-only JSON API over the store:
+ *   GET /totals
+ *   GET /accounts/:address
+ *   GET /beneficiaries
+ * `getState` is called per request so the server always sees the latest sync.
+ */
+export function createApiServer(getState: () => IndexerState): http.Server {
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "GET") {
+      return send(405, { error: "Method not allowed" });
+    }
+
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const accountMatch = pathname.match(/^\/accounts\/([^/]+)$/);
+
+    if (pathname === "/totals") {
+      return send(200, getTotals(getState()));
+    }
+    if (pathname === "/beneficiaries") {
+      return send(200, getBeneficiaryTotals(getState()));
+    }
+    if (accountMatch) {
+      if (!ethers.isAddress(accountMatch[1])) {
+        return send(400, { error: "Invalid address" });
+      }
+      return send(200, getAccountHistory(getState(), accountMatch[1]));
+    }
+    return send(404, { error: "Not found" });
+  });
+}
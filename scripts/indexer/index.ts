@@ -0,0 +1,55 @@
+import path from "path";
+import { ethers } from "hardhat";
+import { JsonRpcProvider, Provider } from "ethers";
+import { createApiServer } from "./api";
+import { loadState, saveState } from "./store";
+import { syncOnce } from "./sync";
+import { getDeployment } from "../deployments";
+
+async function main() {
+  const rpcUrl = process.env.INDEXER_RPC_URL;
+  const port = Number(process.env.INDEXER_PORT || "8787");
+  const intervalSeconds = Number(process.env.INDEXER_INTERVAL || "15");
+  const confirmations = Number(process.env.INDEXER_CONFIRMATIONS || "0");
+
+  // An explicit endpoint wins over the --network the script was started with
+  const provider: Provider = rpcUrl ? new JsonRpcProvider(rpcUrl) : ethers.provider;
+  const { chainId } = await provider.getNetwork();
+  const deployment = getDeployment(chainId);
+  const vaultAddress = deployment.contracts.Yield4GoodVault;
+  if (!vaultAddress) {
+    throw new Error(`No Yield4GoodVault recorded for chain ${chainId}`);
+  }
+  const startBlock = Number(process.env.INDEXER_START_BLOCK || deployment.deploymentBlock);
+  const storeFile =
+    process.env.INDEXER_DB ||
+    path.join("indexer-data", `${chainId}-${vaultAddress.toLowerCase()}.json`);
+
+  const state = loadState(storeFile, vaultAddress, startBlock);
+
+  console.log("Starting indexer with:");
+  console.log("Vault:", vaultAddress);
+  console.log("Chain ID:", chainId.toString());
+  console.log("Store:", storeFile);
+  console.log("Resuming after block:", state.lastBlock);
+
+  const server = createApiServer(() => state);
+  server.listen(port, () => console.log(`[indexer] API listening on http://localhost:${port}`));
+
+  for (;;) {
+    try {
+      await syncOnce(state, provider, { confirmations, log: console.log });
+      saveState(storeFile, state);
+    } catch (error) {
+      console.error("[indexer] sync failed:", error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalSeconds * 1000));
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+
+export type IndexedEventType = "Deposit" | "Withdraw" | "Harvest" | "YieldDonated";
+
+export interface IndexedEvent {
+  type: IndexedEventType;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  /** Share owner for Deposit and Withdraw */
+  account?: string;
+  /** Recipient for Harvest and YieldDonated */
+  beneficiary?: string;
+  /** Amounts are base-unit integers serialized as strings */
+  assets: string;
+  shares?: string;
+}
+
+export interface IndexerState {
+  vault: string;
+  startBlock: number;
+  lastBlock: number;
+  /** Hashes of recently indexed blocks, used to detect reorgs */
+  blockHashes: Record<number, string>;
+  events: IndexedEvent[];
+}
+
+export function createState(vault: string, startBlock: number): IndexerState {
+  return {
+    vault: vault.toLowerCase(),
+    startBlock,
+    lastBlock: startBlock - 1,
+    blockHashes: {},
+    events: [],
+  };
+}
+
+/**
+ * Loads the JSON store at `file`, or starts an empty one if it does not exist yet.
+ * A store written for a different vault is rejected rather than mixed.
+ */
+export function loadState(file: string, vault: string, startBlock: number): IndexerState {
+  if (!fs.existsSync(file)) {
+    return createState(vault, startBlock);
+  }
+
+  const state = JSON.parse(fs.readFileSync(file, "utf8")) as IndexerState;
+  if (state.vault !== vault.toLowerCase()) {
+    throw new Error(`Store ${file} belongs to vault ${state.vault}, not ${vault}`);
+  }
+  return state;
+}
+
+/** Writes to a temporary file and renames it, so a crash never leaves a truncated store. */
+export function saveState(file: string, state: IndexerState): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state));
+  fs.renameSync(tmp, file);
+}
+
+/** Drops everything indexed after `blockNumber`. */
+export function rollback(state: IndexerState, blockNumber: number): void {
+  state.events = state.events.filter((event) => event.blockNumber <= blockNumber);
+  for (const recorded of Object.keys(state.blockHashes)) {
+    if (Number(recorded) > blockNumber) {
+      delete state.blockHashes[Number(recorded)];
+    }
+  }
+  state.lastBlock = Math.min(state.lastBlock, blockNumber);
+}
@@ -0,0 +1,165 @@
+import { ethers, Log, Provider } from "ethers";
+import { IDonationRouter__factory, Yield4GoodVault__factory } from "../../typechain-types";
+import { IndexedEvent, IndexerState, rollback } from "./store";
+
+const vaultInterface = Yield4GoodVault__factory.createInterface();
+const routerInterface = IDonationRouter__factory.createInterface();
+
+const VAULT_TOPICS = (["Deposit", "Withdraw", "Harvest"] as const).map(
+  (name) => vaultInterface.getEvent(name).topicHash
+);
+const YIELD_DONATED_TOPIC = routerInterface.getEvent("YieldDonated").topicHash;
+
+type Logger = (message: string) => void;
+
+export interface SyncOptions {
+  /** Blocks behind the head to stay, so only settled blocks are read. Defaults to 0. */
+  confirmations?: number;
+  /** How far back block hashes are kept and re-checked for reorgs. Defaults to 64. */
+  reorgDepth?: number;
+  /** Widest block range requested in one eth_getLogs call. Defaults to 2000. */
+  chunkSize?: number;
+  log?: Logger;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  /** Block the store was rolled back to when a reorg was detected */
+  reorgedTo?: number;
+}
+
+/**
+ * Re-reads the recorded recent block hashes and returns the last block that is still
+ * canonical, or undefined if nothing has changed. Every block that produced an event is
+ * recorded, so rolling back to the newest matching record drops exactly the orphaned events.
+ */
+async function findCommonAncestor(
+  state: IndexerState,
+  provider: Provider
+): Promise<number | undefined> {
+  const recorded = Object.keys(state.blockHashes)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  for (let i = 0; i < recorded.length; i++) {
+    const block = await provider.getBlock(recorded[i]);
+    if (block?.hash !== state.blockHashes[recorded[i]]) {
+      return i > 0 ? recorded[i - 1] : recorded[i] - 1;
+    }
+  }
+  return undefined;
+}
+
+function decodeLog(log: Log, timestamp: number): IndexedEvent {
+  const base = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    timestamp,
+  };
+
+  if (log.topics[0] === YIELD_DONATED_TOPIC) {
+    const { args } = routerInterface.parseLog(log)!;
+    return {
+      ...base,
+      type: "YieldDonated",
+      beneficiary: args.beneficiary.toLowerCase(),
+      assets: args.amount.toString(),
+    };
+  }
+
+  const parsed = vaultInterface.parseLog(log)!;
+  const { args } = parsed;
+  switch (parsed.name) {
+    case "Deposit":
+    case "Withdraw":
+      return {
+        ...base,
+        type: parsed.name,
+        account: args.owner.toLowerCase(),
+        assets: args.assets.toString(),
+        shares: args.shares.toString(),
+      };
+    default:
+      return {
+        ...base,
+        type: "Harvest",
+        beneficiary: args.beneficiary.toLowerCase(),
+        assets: args.yieldAmount.toString(),
+      };
+  }
+}
+
+/**
+ * Brings the store up to the current head: rolls back past a reorg if one is found,
+ * then reads vault Deposit/Withdraw/Harvest logs and YieldDonated logs from any router
+ * the vault has called, in `chunkSize` ranges.
+ */
+export async function syncOnce(
+  state: IndexerState,
+  provider: Provider,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const { confirmations = 0, reorgDepth = 64, chunkSize = 2000, log = () => {} } = options;
+
+  let reorgedTo: number | undefined;
+  const ancestor = await findCommonAncestor(state, provider);
+  if (ancestor !== undefined) {
+    rollback(state, ancestor);
+    reorgedTo = ancestor;
+    log(`[indexer] reorg: rolled back to block ${ancestor}`);
+  }
+
+  const head = (await provider.getBlockNumber()) - confirmations;
+  const fromBlock = state.lastBlock + 1;
+  const timestamps = new Map<number, number>();
+  let added = 0;
+
+  for (let start = fromBlock; start <= head; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, head);
+    const [vaultLogs, donationLogs, endBlock] = await Promise.all([
+      provider.getLogs({
+        address: state.vault,
+        topics: [VAULT_TOPICS],
+        fromBlock: start,
+        toBlock: end,
+      }),
+      provider.getLogs({
+        topics: [YIELD_DONATED_TOPIC, null, null, ethers.zeroPadValue(state.vault, 32)],
+        fromBlock: start,
+        toBlock: end,
+      }),
+      provider.getBlock(end),
+    ]);
+
+    const logs = [...vaultLogs, ...donationLogs].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+    );
+    for (const entry of logs) {
+      if (!timestamps.has(entry.blockNumber)) {
+        const block = await provider.getBlock(entry.blockNumber);
+        timestamps.set(entry.blockNumber, block!.timestamp);
+      }
+      state.events.push(decodeLog(entry, timestamps.get(entry.blockNumber)!));
+      state.blockHashes[entry.blockNumber] = entry.blockHash;
+    }
+
+    state.blockHashes[end] = endBlock!.hash!;
+    state.lastBlock = end;
+    added += logs.length;
+  }
+
+  for (const recorded of Object.keys(state.blockHashes)) {
+    if (Number(recorded) <= state.lastBlock - reorgDepth) {
+      delete state.blockHashes[Number(recorded)];
+    }
+  }
+
+  if (added > 0) {
+    log(`[indexer] blocks ${fromBlock}-${state.lastBlock}: ${added} events`);
+  }
+  return { fromBlock, toBlock: state.lastBlock, added, reorgedTo };
+}
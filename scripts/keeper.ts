@@ -0,0 +1,106 @@
+import { ethers } from "hardhat";
+import { Yield4GoodVault } from "../typechain-types";
+import { getDeployedAddress } from "./deployments";
+
+export interface KeeperDecision {
+  harvested: boolean;
+  pending: bigint;
+  gasCostInAsset: bigint;
+  txHash?: string;
+}
+
+type Logger = (message: string) => void;
+
+/**
+ * Prices a harvest() call in the vault asset: estimated gas * current fee * ETH price.
+ * `ethPriceInAsset` is the price of 1 ETH in asset base units (e.g. 3000e6 for USDC).
+ */
+export async function estimateHarvestCost(
+  vault: Yield4GoodVault,
+  ethPriceInAsset: bigint
+): Promise<bigint> {
+  const gas = await vault.harvest.estimateGas();
+  const feeData = await ethers.provider.getFeeData();
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  return (gas * gasPrice * ethPriceInAsset) / ethers.WeiPerEther;
+}
+
+/**
+ * Runs a single keeper check: asks the vault's harvestTrigger whether harvesting
+ * covers its gas cost and thresholds, and harvests only if it does.
+ */
+export async function runKeeperTick(
+  vault: Yield4GoodVault,
+  ethPriceInAsset: bigint,
+  log: Logger = console.log
+): Promise<KeeperDecision> {
+  const decimals = await vault.decimals();
+  const pending = await vault.pendingDonation();
+  const format = (amount: bigint) => ethers.formatUnits(amount, decimals);
+
+  let gasCostInAsset: bigint;
+  try {
+    gasCostInAsset = await estimateHarvestCost(vault, ethPriceInAsset);
+  } catch {
+    log(`[keeper] skip: harvest would revert (pending ${format(pending)})`);
+    return { harvested: false, pending, gasCostInAsset: 0n };
+  }
+
+  const shouldHarvest = await vault.harvestTrigger(gasCostInAsset);
+  if (!shouldHarvest) {
+    log(
+      `[keeper] skip: trigger false (pending ${format(pending)}, gas cost ${format(gasCostInAsset)})`
+    );
+    return { harvested: false, pending, gasCostInAsset };
+  }
+
+  const tx = await vault.harvest();
+  const receipt = await tx.wait();
+  log(
+    `[keeper] harvest: pending ${format(pending)}, gas cost ${format(gasCostInAsset)}, tx ${receipt?.hash}`
+  );
+  return { harvested: true, pending, gasCostInAsset, txHash: receipt?.hash };
+}
+
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  const vaultAddress = getDeployedAddress(chainId, "Yield4GoodVault");
+  // Without a price the gas cost would be 0 and any pending yield would look worth harvesting
+  const ethPrice = process.env.KEEPER_ETH_PRICE;
+  if (!ethPrice || Number(ethPrice) <= 0) {
+    throw new Error(
+      "KEEPER_ETH_PRICE environment variable is not set; set it to the price of 1 ETH in the vault asset"
+    );
+  }
+  const intervalSeconds = Number(process.env.KEEPER_INTERVAL || "60");
+  const maxTicks = process.env.KEEPER_MAX_TICKS ? Number(process.env.KEEPER_MAX_TICKS) : Infinity;
+
+  const vault = await ethers.getContractAt("Yield4GoodVault", vaultAddress);
+  const ethPriceInAsset = ethers.parseUnits(ethPrice, await vault.decimals());
+
+  console.log("Starting keeper with:");
+  console.log("Vault:", vaultAddress);
+  console.log("ETH price:", ethPrice);
+  console.log("Interval:", intervalSeconds, "seconds");
+
+  for (let tick = 1; tick <= maxTicks; tick++) {
+    try {
+      await runKeeperTick(vault, ethPriceInAsset);
+    } catch (error) {
+      console.error("[keeper] tick failed:", error);
+    }
+
+    if (tick < maxTicks) {
+      await new Promise((resolve) => setTimeout(resolve, intervalSeconds * 1000));
+    }
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
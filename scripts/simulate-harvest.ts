@@ -1,18 +1,12 @@
 import { ethers } from "hardhat";
+import { getDeployedAddress } from "./deployments";
 
 async function main() {
-  const vaultAddress = process.env.VAULT_ADDRESS;
-  const strategyAddress = process.env.STRATEGY_ADDRESS;
+  const { chainId } = await ethers.provider.getNetwork();
+  const vaultAddress = getDeployedAddress(chainId, "Yield4GoodVault");
+  const strategyAddress = getDeployedAddress(chainId, "MockStrategy");
   const simulatedYield = process.env.SIMULATED_YIELD || ethers.parseUnits("10", 6).toString();
 
-  if (!vaultAddress) {
-    throw new Error("VAULT_ADDRESS environment variable is not set");
-  }
-
-  if (!strategyAddress) {
-    throw new Error("STRATEGY_ADDRESS environment variable is not set");
-  }
-
   console.log("Simulating harvest with:");
   console.log("Vault:", vaultAddress);
   console.log("Strategy:", strategyAddress);
@@ -0,0 +1,251 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  AaveV3Strategy,
+  MockAavePool,
+  MockAToken,
+  MockERC20,
+  DonationRouter,
+  Yield4GoodVault,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+const RAY = 10n ** 27n;
+
+describe("AaveV3Strategy", function () {
+  let aaveStrategy: AaveV3Strategy;
+  let pool: MockAavePool;
+  let aToken: MockAToken;
+  let mockToken: MockERC20;
+  let owner: SignerWithAddress;
+  let vault: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  // Raises the liquidity index so that `principal` earns `interest`, backing it with real tokens.
+  async function accrueInterest(principal: bigint, interest: bigint) {
+    const index = await pool.getReserveNormalizedIncome(await mockToken.getAddress());
+    await mockToken.mint(await aToken.getAddress(), interest);
+    await pool.setLiquidityIndex(
+      await mockToken.getAddress(),
+      index + (index * interest) / principal
+    );
+  }
+
+  beforeEach(async function () {
+    [owner, vault, user] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+    await mockToken.waitForDeployment();
+
+    const PoolFactory = await ethers.getContractFactory("MockAavePool");
+    pool = await PoolFactory.deploy();
+    await pool.waitForDeployment();
+
+    const ATokenFactory = await ethers.getContractFactory("MockAToken");
+    aToken = await ATokenFactory.deploy(
+      await pool.getAddress(),
+      await mockToken.getAddress(),
+      "Aave Mock USDC",
+      "aUSDC",
+      6
+    );
+    await aToken.waitForDeployment();
+    await pool.initReserve(await mockToken.getAddress(), await aToken.getAddress());
+
+    const StrategyFactory = await ethers.getContractFactory("AaveV3Strategy");
+    aaveStrategy = await StrategyFactory.deploy(
+      await mockToken.getAddress(),
+      await pool.getAddress(),
+      await aToken.getAddress()
+    );
+    await aaveStrategy.waitForDeployment();
+
+    await mockToken.mint(vault.address, ethers.parseUnits("10000", 6));
+  });
+
+  describe("Deployment", function () {
+    it("Should set the correct parameters", async function () {
+      expect(await aaveStrategy.asset()).to.equal(await mockToken.getAddress());
+      expect(await aaveStrategy.pool()).to.equal(await pool.getAddress());
+      expect(await aaveStrategy.aToken()).to.equal(await aToken.getAddress());
+      expect(await aaveStrategy.owner()).to.equal(owner.address);
+      expect(await aaveStrategy.principal()).to.equal(0);
+      expect(await aaveStrategy.totalAssets()).to.equal(0);
+    });
+
+    it("Should revert with zero pool address", async function () {
+      const StrategyFactory = await ethers.getContractFactory("AaveV3Strategy");
+      await expect(
+        StrategyFactory.deploy(
+          await mockToken.getAddress(),
+          ethers.ZeroAddress,
+          await aToken.getAddress()
+        )
+      ).to.be.revertedWith("AaveV3Strategy: zero pool address");
+    });
+  });
+
+  describe("Invest", function () {
+    beforeEach(async function () {
+      await aaveStrategy.transferOwnership(vault.address);
+    });
+
+    it("Should supply to the pool and track principal", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(vault).approve(await aaveStrategy.getAddress(), amount);
+
+      await expect(aaveStrategy.connect(vault).invest(amount))
+        .to.emit(aaveStrategy, "Invested")
+        .withArgs(amount);
+
+      expect(await aaveStrategy.principal()).to.equal(amount);
+      expect(await aToken.balanceOf(await aaveStrategy.getAddress())).to.equal(amount);
+      expect(await mockToken.balanceOf(await aToken.getAddress())).to.equal(amount);
+    });
+
+    it("Should revert if non-owner tries to invest", async function () {
+      await expect(aaveStrategy.connect(user).invest(ethers.parseUnits("100", 6)))
+        .to.be.revertedWithCustomError(aaveStrategy, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should revert on zero amount", async function () {
+      await expect(aaveStrategy.connect(vault).invest(0))
+        .to.be.revertedWith("AaveV3Strategy: zero amount");
+    });
+  });
+
+  describe("Divest", function () {
+    const amount = ethers.parseUnits("1000", 6);
+
+    beforeEach(async function () {
+      await aaveStrategy.transferOwnership(vault.address);
+      await mockToken.connect(vault).approve(await aaveStrategy.getAddress(), amount);
+      await aaveStrategy.connect(vault).invest(amount);
+    });
+
+    it("Should withdraw principal from the pool", async function () {
+      const divestAmount = ethers.parseUnits("400", 6);
+      const balanceBefore = await mockToken.balanceOf(vault.address);
+
+      await expect(aaveStrategy.connect(vault).divest(divestAmount))
+        .to.emit(aaveStrategy, "Divested")
+        .withArgs(divestAmount);
+
+      expect(await aaveStrategy.principal()).to.equal(amount - divestAmount);
+      expect(await mockToken.balanceOf(vault.address)).to.equal(balanceBefore + divestAmount);
+    });
+
+    it("Should leave accrued interest in the pool", async function () {
+      const interest = ethers.parseUnits("50", 6);
+      await accrueInterest(amount, interest);
+
+      await aaveStrategy.connect(vault).divest(amount);
+
+      expect(await aaveStrategy.principal()).to.equal(0);
+      expect(await aaveStrategy.pendingYield()).to.be.closeTo(interest, 1n);
+    });
+
+    it("Should revert if divesting more than principal", async function () {
+      await expect(aaveStrategy.connect(vault).divest(amount + 1n))
+        .to.be.revertedWith("AaveV3Strategy: insufficient principal");
+    });
+  });
+
+  describe("Harvest", function () {
+    const amount = ethers.parseUnits("1000", 6);
+
+    beforeEach(async function () {
+      await aaveStrategy.transferOwnership(vault.address);
+      await mockToken.connect(vault).approve(await aaveStrategy.getAddress(), amount);
+      await aaveStrategy.connect(vault).invest(amount);
+    });
+
+    it("Should return zero before any interest accrues", async function () {
+      const [yieldAmount, loss] = await aaveStrategy.connect(vault).harvest.staticCall();
+      expect(yieldAmount).to.equal(0);
+      expect(loss).to.equal(0);
+    });
+
+    it("Should withdraw the aToken balance above principal", async function () {
+      const interest = ethers.parseUnits("50", 6);
+      await accrueInterest(amount, interest);
+
+      expect(await aaveStrategy.totalAssets()).to.equal(amount + interest);
+      expect(await aaveStrategy.pendingYield()).to.equal(interest);
+
+      const balanceBefore = await mockToken.balanceOf(vault.address);
+      await expect(aaveStrategy.connect(vault).harvest())
+        .to.emit(aaveStrategy, "Harvested")
+        .withArgs(interest);
+
+      expect(await mockToken.balanceOf(vault.address)).to.equal(balanceBefore + interest);
+      expect(await aaveStrategy.principal()).to.equal(amount);
+      expect(await aaveStrategy.totalAssets()).to.be.closeTo(amount, 1n);
+    });
+
+    it("Should revert if non-owner tries to harvest", async function () {
+      await expect(aaveStrategy.connect(user).harvest())
+        .to.be.revertedWithCustomError(aaveStrategy, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Vault integration", function () {
+    let yieldVault: Yield4GoodVault;
+    let router: DonationRouter;
+    let beneficiary: SignerWithAddress;
+
+    beforeEach(async function () {
+      beneficiary = user;
+
+      const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+      router = await DonationRouterFactory.deploy();
+      await router.waitForDeployment();
+
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+      yieldVault = await VaultFactory.deploy(
+        await mockToken.getAddress(),
+        await aaveStrategy.getAddress(),
+        await router.getAddress(),
+        beneficiary.address,
+        "Yield4Good Vault",
+        "Y4G"
+      );
+      await yieldVault.waitForDeployment();
+
+      await aaveStrategy.transferOwnership(await yieldVault.getAddress());
+    });
+
+    it("Should donate Aave interest and keep principal withdrawable", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(vault).approve(await yieldVault.getAddress(), amount);
+      await yieldVault.connect(vault).deposit(amount, vault.address);
+
+      expect(await aToken.balanceOf(await aaveStrategy.getAddress())).to.equal(amount);
+
+      // 2% supply interest
+      const interest = ethers.parseUnits("20", 6);
+      await accrueInterest(amount, interest);
+
+      await expect(yieldVault.harvest())
+        .to.emit(yieldVault, "Harvest")
+        .withArgs(interest, beneficiary.address);
+
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(interest);
+      expect(await yieldVault.totalDonated()).to.equal(interest);
+
+      const shares = await yieldVault.balanceOf(vault.address);
+      const balanceBefore = await mockToken.balanceOf(vault.address);
+      await yieldVault.connect(vault).redeem(shares, vault.address, vault.address);
+
+      expect(await mockToken.balanceOf(vault.address)).to.be.closeTo(balanceBefore + amount, 1n);
+    });
+  });
+
+  describe("MockAavePool", function () {
+    it("Should not allow the liquidity index to decrease", async function () {
+      await expect(pool.setLiquidityIndex(await mockToken.getAddress(), RAY - 1n))
+        .to.be.revertedWith("MockAavePool: index decrease");
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  DonorProofNFT,
+  Yield4GoodVault,
+  MockStrategy,
+  DonationRouter,
+  MockERC20,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+function decodeDataUri(uri: string, prefix: string): string {
+  expect(uri.startsWith(prefix)).to.equal(true);
+  return Buffer.from(uri.slice(prefix.length), "base64").toString("utf8");
+}
+
+describe("DonorProofNFT", function () {
+  let nft: DonorProofNFT;
+  let vault: Yield4GoodVault;
+  let strategy: MockStrategy;
+  let router: DonationRouter;
+  let mockToken: MockERC20;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  const tiers = [
+    ethers.parseUnits("10", 6),
+    ethers.parseUnits("100", 6),
+    ethers.parseUnits("1000", 6),
+  ];
+
+  async function depositFor(user: SignerWithAddress, amount: bigint) {
+    await mockToken.connect(user).approve(await vault.getAddress(), amount);
+    await vault.connect(user).deposit(amount, user.address);
+  }
+
+  async function harvestYield(amount: bigint) {
+    await mockToken.mint(await strategy.getAddress(), amount);
+    await strategy.setSimulatedYield(amount);
+    await vault.harvest();
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2, beneficiary] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+    await mockToken.waitForDeployment();
+
+    const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+    router = await DonationRouterFactory.deploy();
+    await router.waitForDeployment();
+
+    const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+    strategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+    await strategy.waitForDeployment();
+
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+    vault = await VaultFactory.deploy(
+      await mockToken.getAddress(),
+      await strategy.getAddress(),
+      await router.getAddress(),
+      beneficiary.address,
+      "Yield4Good Vault",
+      "Y4G"
+    );
+    await vault.waitForDeployment();
+    await strategy.transferOwnership(await vault.getAddress());
+
+    const NFTFactory = await ethers.getContractFactory("DonorProofNFT");
+    nft = await NFTFactory.deploy(await vault.getAddress(), tiers);
+    await nft.waitForDeployment();
+
+    await mockToken.mint(user1.address, ethers.parseUnits("10000", 6));
+    await mockToken.mint(user2.address, ethers.parseUnits("10000", 6));
+  });
+
+  describe("Deployment", function () {
+    it("Should set the vault and tiers", async function () {
+      expect(await nft.vault()).to.equal(await vault.getAddress());
+      expect(await nft.tierThresholds()).to.deep.equal(tiers);
+      expect(await nft.owner()).to.equal(owner.address);
+    });
+
+    it("Should revert with non-ascending tiers", async function () {
+      const NFTFactory = await ethers.getContractFactory("DonorProofNFT");
+      await expect(
+        NFTFactory.deploy(await vault.getAddress(), [tiers[1], tiers[0]])
+      ).to.be.revertedWith("DonorProofNFT: tiers not ascending");
+    });
+  });
+
+  describe("Claim", function () {
+    it("Should revert below the first tier", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("5", 6));
+
+      await expect(nft.connect(user1).claim()).to.be.revertedWith(
+        "DonorProofNFT: below first tier"
+      );
+    });
+
+    it("Should mint a certificate once the first tier is crossed", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+
+      expect(await nft.claimableTier(user1.address)).to.equal(1);
+
+      await expect(nft.connect(user1).claim())
+        .to.emit(nft, "CertificateClaimed")
+        .withArgs(user1.address, 1, 1, ethers.parseUnits("50", 6))
+        .and.to.emit(nft, "Locked")
+        .withArgs(1);
+
+      expect(await nft.ownerOf(1)).to.equal(user1.address);
+      expect(await nft.tokenOf(user1.address)).to.equal(1);
+      expect(await nft.locked(1)).to.equal(true);
+    });
+
+    it("Should upgrade the same token when a higher tier is reached", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+      await nft.connect(user1).claim();
+
+      await expect(nft.connect(user1).claim()).to.be.revertedWith(
+        "DonorProofNFT: no upgrade available"
+      );
+
+      await harvestYield(ethers.parseUnits("60", 6));
+      await nft.connect(user1).claim();
+
+      const certificate = await nft.certificates(1);
+      expect(certificate.tier).to.equal(2);
+      expect(certificate.donated).to.equal(ethers.parseUnits("110", 6));
+      expect(await nft.balanceOf(user1.address)).to.equal(1);
+    });
+
+    it("Should use donations attributed to each depositor", async function () {
+      await depositFor(user1, ethers.parseUnits("100", 6));
+      await depositFor(user2, ethers.parseUnits("900", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+
+      await expect(nft.connect(user1).claim()).to.be.revertedWith(
+        "DonorProofNFT: below first tier"
+      );
+      await nft.connect(user2).claim();
+      expect(await nft.tokenOf(user2.address)).to.equal(1);
+    });
+  });
+
+  describe("Soulbound", function () {
+    beforeEach(async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+      await nft.connect(user1).claim();
+    });
+
+    it("Should not be transferable", async function () {
+      await expect(
+        nft.connect(user1).transferFrom(user1.address, user2.address, 1)
+      ).to.be.revertedWith("DonorProofNFT: soulbound");
+    });
+
+    it("Should support the ERC-5192 interface", async function () {
+      expect(await nft.supportsInterface("0xb45a3c0e")).to.equal(true);
+      expect(await nft.supportsInterface("0x80ac58cd")).to.equal(true);
+    });
+  });
+
+  describe("Metadata", function () {
+    it("Should encode donation, beneficiary and vault on-chain", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("12.5", 6));
+      await nft.connect(user1).claim();
+
+      const json = JSON.parse(
+        decodeDataUri(await nft.tokenURI(1), "data:application/json;base64,")
+      );
+      expect(json.name).to.equal("Yield4Good Donor Proof #1");
+
+      const attributes = Object.fromEntries(
+        json.attributes.map((a: { trait_type: string; value: unknown }) => [a.trait_type, a.value])
+      );
+      expect(attributes.Tier).to.equal(1);
+      expect(attributes.Donated).to.equal("12.50 USDC");
+      expect(attributes.Beneficiary).to.equal(beneficiary.address.toLowerCase());
+      expect(attributes.Vault).to.equal((await vault.getAddress()).toLowerCase());
+
+      const svg = decodeDataUri(json.image, "data:image/svg+xml;base64,");
+      expect(svg).to.contain("12.50 USDC");
+      expect(svg).to.contain(beneficiary.address.toLowerCase());
+    });
+
+    it("Should revert for unminted tokens", async function () {
+      await expect(nft.tokenURI(1)).to.be.revertedWithCustomError(nft, "ERC721NonexistentToken");
+    });
+  });
+
+  describe("Admin Functions", function () {
+    it("Should allow owner to update tiers", async function () {
+      const newTiers = [ethers.parseUnits("1", 6)];
+      await expect(nft.setTiers(newTiers)).to.emit(nft, "TiersUpdated").withArgs(newTiers);
+      expect(await nft.tierThresholds()).to.deep.equal(newTiers);
+    });
+
+    it("Should revert tier updates from non-owner", async function () {
+      await expect(nft.connect(user1).setTiers([1n]))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount");
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Yield4GoodVault, MockStrategy, DonationRouter, MockERC20 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+// EIP-4626 invariants for the max*/preview* surface, checked in both pause states.
+// A strategy loss is simulated up front so that share price is not 1:1 and rounding
+// direction is actually exercised.
+describe("ERC-4626 compliance", function () {
+  let vault: Yield4GoodVault;
+  let strategy: MockStrategy;
+  let router: DonationRouter;
+  let mockToken: MockERC20;
+  let holder: SignerWithAddress;
+  let other: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  const deposited = ethers.parseUnits("1000", 6);
+  const amount = ethers.parseUnits("100", 6) + 7n;
+
+  beforeEach(async function () {
+    [, holder, other, beneficiary] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+
+    const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+    router = await DonationRouterFactory.deploy();
+
+    const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+    strategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+    vault = await VaultFactory.deploy(
+      await mockToken.getAddress(),
+      await strategy.getAddress(),
+      await router.getAddress(),
+      beneficiary.address,
+      "Yield4Good Vault",
+      "Y4G"
+    );
+    await strategy.transferOwnership(await vault.getAddress());
+
+    for (const account of [holder, other]) {
+      await mockToken.mint(account.address, ethers.parseUnits("10000", 6));
+      await mockToken.connect(account).approve(await vault.getAddress(), ethers.MaxUint256);
+    }
+
+    await vault.connect(holder).deposit(deposited, holder.address);
+    await strategy.simulateLoss(ethers.parseUnits("33", 6) + 3n);
+  });
+
+  for (const paused of [false, true]) {
+    describe(paused ? "Paused" : "Unpaused", function () {
+      beforeEach(async function () {
+        if (paused) {
+          await vault.setPaused(true);
+        }
+      });
+
+      describe("asset / totalAssets", function () {
+        it("Should expose the underlying token and never revert", async function () {
+          expect(await vault.asset()).to.equal(await mockToken.getAddress());
+          expect(await vault.totalAssets()).to.equal(
+            deposited - ethers.parseUnits("33", 6) - 3n
+          );
+        });
+      });
+
+      describe("convertToShares / convertToAssets", function () {
+        it("Should not depend on the caller", async function () {
+          expect(await vault.connect(holder).convertToShares(amount)).to.equal(
+            await vault.connect(other).convertToShares(amount)
+          );
+          expect(await vault.connect(holder).convertToAssets(amount)).to.equal(
+            await vault.connect(other).convertToAssets(amount)
+          );
+        });
+
+        it("Should round down", async function () {
+          const supply = await vault.totalSupply();
+          const total = await vault.totalAssets();
+          // OpenZeppelin's virtual share and asset add 1 to each side
+          expect(await vault.convertToShares(amount)).to.equal(
+            (amount * (supply + 1n)) / (total + 1n)
+          );
+          expect(await vault.convertToAssets(amount)).to.equal(
+            (amount * (total + 1n)) / (supply + 1n)
+          );
+        });
+
+        it("Should not be affected by the pause", async function () {
+          const shares = await vault.convertToShares(amount);
+          await vault.setPaused(!paused);
+          expect(await vault.convertToShares(amount)).to.equal(shares);
+        });
+      });
+
+      describe("maxDeposit / maxMint", function () {
+        if (paused) {
+          it("Should return zero", async function () {
+            expect(await vault.maxDeposit(holder.address)).to.equal(0);
+            expect(await vault.maxMint(holder.address)).to.equal(0);
+            expect(await vault.maxDeposit(ethers.ZeroAddress)).to.equal(0);
+          });
+
+          it("Should match deposit and mint reverting", async function () {
+            await expect(vault.connect(other).deposit(1n, other.address)).to.be.revertedWith(
+              "Yield4GoodVault: paused"
+            );
+            await expect(vault.connect(other).mint(1n, other.address)).to.be.revertedWith(
+              "Yield4GoodVault: paused"
+            );
+          });
+        } else {
+          it("Should return uint256 max when uncapped", async function () {
+            expect(await vault.maxDeposit(other.address)).to.equal(ethers.MaxUint256);
+            expect(await vault.maxMint(other.address)).to.equal(ethers.MaxUint256);
+          });
+
+          it("Should allow depositing and minting exactly the max under a cap", async function () {
+            await vault.setDepositCap((await vault.totalAssets()) + amount);
+
+            const maxAssets = await vault.maxDeposit(other.address);
+            expect(maxAssets).to.equal(amount);
+            await vault.connect(other).deposit.staticCall(maxAssets, other.address);
+            await expect(
+              vault.connect(other).deposit(maxAssets + 1n, other.address)
+            ).to.be.revertedWith("Yield4GoodVault: deposit cap exceeded");
+
+            const maxShares = await vault.maxMint(other.address);
+            await vault.connect(other).mint(maxShares, other.address);
+            expect(await vault.maxDeposit(other.address)).to.be.lessThanOrEqual(1n);
+          });
+        }
+      });
+
+      describe("maxWithdraw / maxRedeem", function () {
+        it("Should cover the holder's full position", async function () {
+          const shares = await vault.balanceOf(holder.address);
+          expect(await vault.maxRedeem(holder.address)).to.equal(shares);
+          expect(await vault.maxWithdraw(holder.address)).to.equal(
+            await vault.convertToAssets(shares)
+          );
+        });
+
+        it("Should return zero for an account without shares", async function () {
+          expect(await vault.maxWithdraw(other.address)).to.equal(0);
+          expect(await vault.maxRedeem(other.address)).to.equal(0);
+        });
+
+        it("Should allow withdrawing exactly the max", async function () {
+          const maxAssets = await vault.maxWithdraw(holder.address);
+          const balanceBefore = await mockToken.balanceOf(holder.address);
+
+          await vault.connect(holder).withdraw(maxAssets, holder.address, holder.address);
+
+          expect(await mockToken.balanceOf(holder.address)).to.equal(balanceBefore + maxAssets);
+        });
+
+        it("Should allow redeeming exactly the max", async function () {
+          const maxShares = await vault.maxRedeem(holder.address);
+
+          await vault.connect(holder).redeem(maxShares, holder.address, holder.address);
+
+          expect(await vault.balanceOf(holder.address)).to.equal(0);
+          await expect(
+            vault.connect(holder).redeem(1n, holder.address, holder.address)
+          ).to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxRedeem");
+        });
+      });
+
+      describe("previewDeposit / previewMint", function () {
+        it("Should not revert or account for the pause", async function () {
+          const shares = await vault.previewDeposit(amount);
+          const assets = await vault.previewMint(amount);
+          await vault.setPaused(!paused);
+          expect(await vault.previewDeposit(amount)).to.equal(shares);
+          expect(await vault.previewMint(amount)).to.equal(assets);
+        });
+
+        it("Should round in the vault's favour", async function () {
+          expect(await vault.previewDeposit(amount)).to.equal(await vault.convertToShares(amount));
+          expect(await vault.previewMint(amount)).to.be.greaterThanOrEqual(
+            await vault.convertToAssets(amount)
+          );
+        });
+
+        if (!paused) {
+          it("Should not overstate shares from deposit", async function () {
+            const preview = await vault.previewDeposit(amount);
+            const shares = await vault.connect(other).deposit.staticCall(amount, other.address);
+            expect(preview).to.be.lessThanOrEqual(shares);
+          });
+
+          it("Should not understate assets for mint", async function () {
+            const preview = await vault.previewMint(amount);
+            const balanceBefore = await mockToken.balanceOf(other.address);
+            await vault.connect(other).mint(amount, other.address);
+            const spent = balanceBefore - (await mockToken.balanceOf(other.address));
+            expect(preview).to.be.greaterThanOrEqual(spent);
+          });
+        }
+      });
+
+      describe("previewWithdraw / previewRedeem", function () {
+        it("Should round in the vault's favour", async function () {
+          expect(await vault.previewWithdraw(amount)).to.be.greaterThanOrEqual(
+            await vault.convertToShares(amount)
+          );
+          expect(await vault.previewRedeem(amount)).to.equal(await vault.convertToAssets(amount));
+        });
+
+        it("Should not understate shares burned by withdraw", async function () {
+          const preview = await vault.previewWithdraw(amount);
+          const sharesBefore = await vault.balanceOf(holder.address);
+          await vault.connect(holder).withdraw(amount, holder.address, holder.address);
+          const burned = sharesBefore - (await vault.balanceOf(holder.address));
+          expect(preview).to.be.greaterThanOrEqual(burned);
+        });
+
+        it("Should not overstate assets from redeem", async function () {
+          const preview = await vault.previewRedeem(amount);
+          const balanceBefore = await mockToken.balanceOf(holder.address);
+          await vault.connect(holder).redeem(amount, holder.address, holder.address);
+          const received = (await mockToken.balanceOf(holder.address)) - balanceBefore;
+          expect(preview).to.be.lessThanOrEqual(received);
+        });
+      });
+    });
+  }
+});
@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  ETHGateway,
+  Yield4GoodVault,
+  MockStrategy,
+  MockWETH,
+  MockERC20,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("ETHGateway", function () {
+  let gateway: ETHGateway;
+  let vault: Yield4GoodVault;
+  let strategy: MockStrategy;
+  let weth: MockWETH;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, user1, user2, beneficiary] = await ethers.getSigners();
+
+    const WETHFactory = await ethers.getContractFactory("MockWETH");
+    weth = await WETHFactory.deploy();
+    await weth.waitForDeployment();
+
+    const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+    const router = await DonationRouterFactory.deploy();
+    await router.waitForDeployment();
+
+    const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+    strategy = await MockStrategyFactory.deploy(await weth.getAddress());
+    await strategy.waitForDeployment();
+
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+    vault = await VaultFactory.deploy(
+      await weth.getAddress(),
+      await strategy.getAddress(),
+      await router.getAddress(),
+      beneficiary.address,
+      "Yield4Good ETH Vault",
+      "Y4GETH"
+    );
+    await vault.waitForDeployment();
+
+    await strategy.transferOwnership(await vault.getAddress());
+
+    const GatewayFactory = await ethers.getContractFactory("ETHGateway");
+    gateway = await GatewayFactory.deploy(await weth.getAddress(), await vault.getAddress());
+    await gateway.waitForDeployment();
+  });
+
+  describe("Deployment", function () {
+    it("Should set WETH and the vault", async function () {
+      expect(await gateway.weth()).to.equal(await weth.getAddress());
+      expect(await gateway.vault()).to.equal(await vault.getAddress());
+    });
+
+    it("Should revert when the vault asset is not WETH", async function () {
+      const ERC20Factory = await ethers.getContractFactory("MockERC20");
+      const usdc: MockERC20 = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+
+      const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+      const usdcStrategy = await MockStrategyFactory.deploy(await usdc.getAddress());
+
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+      const usdcVault = await VaultFactory.deploy(
+        await usdc.getAddress(),
+        await usdcStrategy.getAddress(),
+        await vault.donationRouter(),
+        beneficiary.address,
+        "Yield4Good Vault",
+        "Y4G"
+      );
+
+      const GatewayFactory = await ethers.getContractFactory("ETHGateway");
+      await expect(
+        GatewayFactory.deploy(await weth.getAddress(), await usdcVault.getAddress())
+      ).to.be.revertedWith("ETHGateway: vault asset is not WETH");
+    });
+  });
+
+  describe("Deposit ETH", function () {
+    it("Should wrap ETH and mint shares to the receiver", async function () {
+      const amount = ethers.parseEther("1");
+
+      await expect(gateway.connect(user1).depositETH(user2.address, { value: amount }))
+        .to.emit(gateway, "DepositETH")
+        .withArgs(user1.address, user2.address, amount, amount)
+        .and.to.emit(vault, "Deposit")
+        .withArgs(await gateway.getAddress(), user2.address, amount, amount);
+
+      expect(await vault.balanceOf(user2.address)).to.equal(amount);
+      expect(await vault.balanceOf(user1.address)).to.equal(0);
+      expect(await vault.totalAssets()).to.equal(amount);
+      expect(await weth.balanceOf(await gateway.getAddress())).to.equal(0);
+      expect(await ethers.provider.getBalance(await gateway.getAddress())).to.equal(0);
+    });
+
+    it("Should revert with zero value", async function () {
+      await expect(
+        gateway.connect(user1).depositETH(user1.address, { value: 0 })
+      ).to.be.revertedWith("ETHGateway: zero amount");
+    });
+
+    it("Should pass through vault deposit checks", async function () {
+      await vault.setPaused(true);
+
+      await expect(
+        gateway.connect(user1).depositETH(user1.address, { value: ethers.parseEther("1") })
+      ).to.be.revertedWith("Yield4GoodVault: paused");
+    });
+  });
+
+  describe("Withdraw ETH", function () {
+    const deposited = ethers.parseEther("2");
+
+    beforeEach(async function () {
+      await gateway.connect(user1).depositETH(user1.address, { value: deposited });
+    });
+
+    it("Should redeem shares and send ETH to the receiver", async function () {
+      const shares = ethers.parseEther("1");
+      await vault.connect(user1).approve(await gateway.getAddress(), shares);
+
+      const tx = gateway.connect(user1).redeemETH(shares, user2.address);
+      await expect(tx).to.changeEtherBalance(user2, shares);
+      await expect(tx)
+        .to.emit(gateway, "WithdrawETH")
+        .withArgs(user1.address, user2.address, shares, shares);
+
+      expect(await vault.balanceOf(user1.address)).to.equal(deposited - shares);
+      expect(await ethers.provider.getBalance(await gateway.getAddress())).to.equal(0);
+    });
+
+    it("Should withdraw an exact asset amount as ETH", async function () {
+      const assets = ethers.parseEther("0.5");
+      await vault.connect(user1).approve(await gateway.getAddress(), await vault.previewWithdraw(assets));
+
+      await expect(gateway.connect(user1).withdrawETH(assets, user1.address))
+        .to.changeEtherBalance(user1, assets, { includeFee: false });
+
+      expect(await vault.balanceOf(user1.address)).to.equal(deposited - assets);
+    });
+
+    it("Should revert without a share allowance", async function () {
+      await expect(
+        gateway.connect(user1).redeemETH(ethers.parseEther("1"), user1.address)
+      ).to.be.revertedWithCustomError(vault, "ERC20InsufficientAllowance");
+    });
+
+    it("Should not let a caller redeem someone else's shares", async function () {
+      // user1's approval lets the gateway move user1's shares, but only for user1's calls
+      await vault.connect(user1).approve(await gateway.getAddress(), deposited);
+
+      await expect(
+        gateway.connect(user2).redeemETH(ethers.parseEther("1"), user2.address)
+      ).to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxRedeem");
+    });
+
+    it("Should revert with zero amounts or a zero receiver", async function () {
+      await expect(gateway.connect(user1).redeemETH(0, user1.address)).to.be.revertedWith(
+        "ETHGateway: zero shares"
+      );
+      await expect(gateway.connect(user1).withdrawETH(0, user1.address)).to.be.revertedWith(
+        "ETHGateway: zero amount"
+      );
+      await expect(
+        gateway.connect(user1).redeemETH(1, ethers.ZeroAddress)
+      ).to.be.revertedWith("ETHGateway: zero receiver address");
+    });
+  });
+
+  describe("Receive", function () {
+    it("Should reject ETH not sent by WETH", async function () {
+      await expect(
+        user1.sendTransaction({ to: await gateway.getAddress(), value: 1 })
+      ).to.be.revertedWith("ETHGateway: only WETH");
+    });
+  });
+});
@@ -125,8 +125,9 @@ describe("MockStrategy", function () {
     });
 
     it("Should return zero if no yield", async function () {
-      const result = await mockStrategy.connect(vault).harvest.staticCall();
-      expect(result).to.equal(0);
+      const [yieldAmount, loss] = await mockStrategy.connect(vault).harvest.staticCall();
+      expect(yieldAmount).to.equal(0);
+      expect(loss).to.equal(0);
     });
 
     it("Should not affect principal", async function () {
@@ -141,6 +142,69 @@ describe("MockStrategy", function () {
     });
   });
 
+  describe("SimulateLoss", function () {
+    const amount = ethers.parseUnits("1000", 6);
+    const loss = ethers.parseUnits("200", 6);
+
+    beforeEach(async function () {
+      await mockStrategy.transferOwnership(vault.address);
+      await mockToken.connect(vault).approve(await mockStrategy.getAddress(), amount);
+      await mockStrategy.connect(vault).invest(amount);
+    });
+
+    it("Should burn principal and reduce totalAssets", async function () {
+      await expect(mockStrategy.simulateLoss(loss))
+        .to.emit(mockStrategy, "LossSimulated")
+        .withArgs(loss);
+
+      expect(await mockStrategy.simulatedLoss()).to.equal(loss);
+      expect(await mockStrategy.principal()).to.equal(amount);
+      expect(await mockStrategy.totalAssets()).to.equal(amount - loss);
+      expect(await mockToken.balanceOf(await mockStrategy.getAddress())).to.equal(amount - loss);
+    });
+
+    it("Should revert if the loss exceeds principal", async function () {
+      await expect(mockStrategy.simulateLoss(amount + 1n))
+        .to.be.revertedWith("MockStrategy: loss exceeds principal");
+    });
+
+    it("Should pay out in full while enough is left", async function () {
+      await mockStrategy.simulateLoss(loss);
+
+      await expect(mockStrategy.connect(vault).divest(ethers.parseUnits("500", 6)))
+        .to.emit(mockStrategy, "Divested")
+        .withArgs(ethers.parseUnits("500", 6));
+      expect(await mockStrategy.simulatedLoss()).to.equal(loss);
+    });
+
+    it("Should return less than requested once the loss is hit", async function () {
+      await mockStrategy.simulateLoss(loss);
+
+      const received = await mockStrategy.connect(vault).divest.staticCall(amount);
+      expect(received).to.equal(amount - loss);
+
+      await expect(mockStrategy.connect(vault).divest(amount))
+        .to.emit(mockStrategy, "LossRealized")
+        .withArgs(loss);
+      expect(await mockStrategy.principal()).to.equal(0);
+      expect(await mockStrategy.simulatedLoss()).to.equal(0);
+    });
+
+    it("Should report and write down the loss on harvest", async function () {
+      await mockStrategy.simulateLoss(loss);
+
+      const [yieldAmount, reported] = await mockStrategy.connect(vault).harvest.staticCall();
+      expect(yieldAmount).to.equal(0);
+      expect(reported).to.equal(loss);
+
+      await expect(mockStrategy.connect(vault).harvest())
+        .to.emit(mockStrategy, "LossRealized")
+        .withArgs(loss);
+      expect(await mockStrategy.principal()).to.equal(amount - loss);
+      expect(await mockStrategy.totalAssets()).to.equal(amount - loss);
+    });
+  });
+
   describe("SetSimulatedYield", function () {
     it("Should allow owner to set simulated yield", async function () {
       const yieldAmount = ethers.parseUnits("100", 6);
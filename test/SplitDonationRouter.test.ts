@@ -0,0 +1,271 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SplitDonationRouter, MockERC20, MockStrategy, Yield4GoodVault } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const SPLIT_DELAY = 2 * 24 * 60 * 60;
+
+describe("SplitDonationRouter", function () {
+  let splitRouter: SplitDonationRouter;
+  let mockToken: MockERC20;
+  let owner: SignerWithAddress;
+  let vault: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+  let projectA: SignerWithAddress;
+  let projectB: SignerWithAddress;
+  let projectC: SignerWithAddress;
+
+  async function setSplits(recipients: string[], weights: number[]) {
+    await splitRouter.queueSplits(recipients, weights);
+    await time.increase(SPLIT_DELAY);
+    return splitRouter.executeSplits();
+  }
+
+  beforeEach(async function () {
+    [owner, vault, beneficiary, projectA, projectB, projectC] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+    await mockToken.waitForDeployment();
+
+    const SplitRouterFactory = await ethers.getContractFactory("SplitDonationRouter");
+    splitRouter = await SplitRouterFactory.deploy(SPLIT_DELAY);
+    await splitRouter.waitForDeployment();
+
+    await mockToken.mint(vault.address, ethers.parseUnits("10000", 6));
+    await mockToken
+      .connect(vault)
+      .approve(await splitRouter.getAddress(), ethers.MaxUint256);
+  });
+
+  describe("Split changes", function () {
+    it("Should store recipients and weights once the delay passes", async function () {
+      const recipients = [projectA.address, projectB.address];
+      const weights = [7000, 3000];
+
+      await expect(setSplits(recipients, weights))
+        .to.emit(splitRouter, "SplitsUpdated")
+        .withArgs(recipients, weights);
+
+      const [storedRecipients, storedWeights] = await splitRouter.getSplits();
+      expect(storedRecipients).to.deep.equal(recipients);
+      expect(storedWeights).to.deep.equal(weights.map(BigInt));
+      expect(await splitRouter.splitCount()).to.equal(2);
+      expect((await splitRouter.getPendingSplits()).eta).to.equal(0);
+    });
+
+    it("Should keep donating to the old split until the delay passes", async function () {
+      const recipients = [projectA.address, projectB.address];
+      const weights = [7000, 3000];
+      const eta = (await time.latest()) + 1 + SPLIT_DELAY;
+
+      await expect(splitRouter.queueSplits(recipients, weights))
+        .to.emit(splitRouter, "SplitsQueued")
+        .withArgs(recipients, weights, eta);
+
+      const pending = await splitRouter.getPendingSplits();
+      expect(pending.recipients).to.deep.equal(recipients);
+      expect(pending.eta).to.equal(eta);
+      expect(await splitRouter.splitCount()).to.equal(0);
+
+      await expect(splitRouter.executeSplits()).to.be.revertedWith(
+        "SplitDonationRouter: delay not expired"
+      );
+      await splitRouter
+        .connect(vault)
+        .donate(await mockToken.getAddress(), beneficiary.address, 100n);
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(100n);
+    });
+
+    it("Should allow one queued split at a time", async function () {
+      await splitRouter.queueSplits([projectA.address], [10000]);
+      await expect(splitRouter.queueSplits([projectB.address], [10000])).to.be.revertedWith(
+        "SplitDonationRouter: splits already queued"
+      );
+    });
+
+    it("Should cancel a queued split", async function () {
+      await splitRouter.queueSplits([projectA.address], [10000]);
+
+      await expect(splitRouter.cancelSplits()).to.emit(splitRouter, "SplitsCancelled");
+      const pending = await splitRouter.getPendingSplits();
+      expect(pending.recipients).to.deep.equal([]);
+      expect(pending.eta).to.equal(0);
+      await expect(splitRouter.executeSplits()).to.be.revertedWith(
+        "SplitDonationRouter: splits not queued"
+      );
+    });
+
+    it("Should replace an existing split", async function () {
+      await setSplits([projectA.address, projectB.address], [5000, 5000]);
+      await setSplits([projectC.address], [10000]);
+
+      const [storedRecipients] = await splitRouter.getSplits();
+      expect(storedRecipients).to.deep.equal([projectC.address]);
+    });
+
+    it("Should allow clearing the split", async function () {
+      await setSplits([projectA.address], [10000]);
+      await setSplits([], []);
+
+      expect(await splitRouter.splitCount()).to.equal(0);
+    });
+
+    it("Should revert when weights do not sum to 100%", async function () {
+      await expect(
+        splitRouter.queueSplits([projectA.address, projectB.address], [5000, 4000])
+      ).to.be.revertedWith("SplitDonationRouter: weights must sum to 100%");
+    });
+
+    it("Should revert on length mismatch", async function () {
+      await expect(
+        splitRouter.queueSplits([projectA.address, projectB.address], [10000])
+      ).to.be.revertedWith("SplitDonationRouter: length mismatch");
+    });
+
+    it("Should revert on zero recipient or zero weight", async function () {
+      await expect(
+        splitRouter.queueSplits([ethers.ZeroAddress], [10000])
+      ).to.be.revertedWith("SplitDonationRouter: zero recipient address");
+
+      await expect(
+        splitRouter.queueSplits([projectA.address, projectB.address], [10000, 0])
+      ).to.be.revertedWith("SplitDonationRouter: zero weight");
+    });
+
+    it("Should revert on a duplicate recipient", async function () {
+      await expect(
+        splitRouter.queueSplits([projectA.address, projectB.address, projectA.address], [4000, 3000, 3000])
+      ).to.be.revertedWith("SplitDonationRouter: duplicate recipient");
+    });
+
+    it("Should revert a delay above the maximum", async function () {
+      const SplitRouterFactory = await ethers.getContractFactory("SplitDonationRouter");
+      await expect(SplitRouterFactory.deploy(31 * 24 * 60 * 60)).to.be.revertedWith(
+        "SplitDonationRouter: delay too long"
+      );
+    });
+
+    it("Should revert for non-owner", async function () {
+      await expect(splitRouter.connect(vault).queueSplits([projectA.address], [10000]))
+        .to.be.revertedWithCustomError(splitRouter, "OwnableUnauthorizedAccount");
+
+      await splitRouter.queueSplits([projectA.address], [10000]);
+      await expect(splitRouter.connect(vault).executeSplits())
+        .to.be.revertedWithCustomError(splitRouter, "OwnableUnauthorizedAccount");
+      await expect(splitRouter.connect(vault).cancelSplits())
+        .to.be.revertedWithCustomError(splitRouter, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Donate", function () {
+    it("Should fall back to the beneficiary when no split is set", async function () {
+      const amount = ethers.parseUnits("100", 6);
+
+      await expect(
+        splitRouter.connect(vault).donate(await mockToken.getAddress(), beneficiary.address, amount)
+      )
+        .to.emit(splitRouter, "YieldDonated")
+        .withArgs(await mockToken.getAddress(), beneficiary.address, amount, vault.address);
+
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(amount);
+    });
+
+    it("Should distribute pro rata and emit one event per recipient", async function () {
+      await setSplits(
+        [projectA.address, projectB.address, projectC.address],
+        [5000, 3000, 2000]
+      );
+      const amount = ethers.parseUnits("100", 6);
+      const asset = await mockToken.getAddress();
+
+      await expect(splitRouter.connect(vault).donate(asset, beneficiary.address, amount))
+        .to.emit(splitRouter, "YieldDonated")
+        .withArgs(asset, projectA.address, ethers.parseUnits("50", 6), vault.address)
+        .and.to.emit(splitRouter, "YieldDonated")
+        .withArgs(asset, projectB.address, ethers.parseUnits("30", 6), vault.address)
+        .and.to.emit(splitRouter, "YieldDonated")
+        .withArgs(asset, projectC.address, ethers.parseUnits("20", 6), vault.address);
+
+      expect(await mockToken.balanceOf(projectA.address)).to.equal(ethers.parseUnits("50", 6));
+      expect(await mockToken.balanceOf(projectB.address)).to.equal(ethers.parseUnits("30", 6));
+      expect(await mockToken.balanceOf(projectC.address)).to.equal(ethers.parseUnits("20", 6));
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(0);
+    });
+
+    it("Should give the rounding remainder to the last recipient", async function () {
+      await setSplits(
+        [projectA.address, projectB.address, projectC.address],
+        [3333, 3333, 3334]
+      );
+      const amount = 100n;
+
+      await splitRouter
+        .connect(vault)
+        .donate(await mockToken.getAddress(), beneficiary.address, amount);
+
+      expect(await mockToken.balanceOf(projectA.address)).to.equal(33n);
+      expect(await mockToken.balanceOf(projectB.address)).to.equal(33n);
+      expect(await mockToken.balanceOf(projectC.address)).to.equal(34n);
+      expect(await mockToken.balanceOf(await splitRouter.getAddress())).to.equal(0);
+    });
+
+    it("Should skip recipients whose share rounds to zero", async function () {
+      await setSplits([projectA.address, projectB.address], [1, 9999]);
+
+      await splitRouter
+        .connect(vault)
+        .donate(await mockToken.getAddress(), beneficiary.address, 10n);
+
+      expect(await mockToken.balanceOf(projectA.address)).to.equal(0);
+      expect(await mockToken.balanceOf(projectB.address)).to.equal(10n);
+    });
+
+    it("Should revert on zero amount", async function () {
+      await expect(
+        splitRouter.donate(await mockToken.getAddress(), beneficiary.address, 0)
+      ).to.be.revertedWith("SplitDonationRouter: zero amount");
+    });
+  });
+
+  describe("Vault harvest", function () {
+    it("Should split harvested yield between beneficiaries", async function () {
+      const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+      const strategy: MockStrategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+      const yieldVault: Yield4GoodVault = await VaultFactory.deploy(
+        await mockToken.getAddress(),
+        await strategy.getAddress(),
+        await splitRouter.getAddress(),
+        beneficiary.address,
+        "Yield4Good Vault",
+        "Y4G"
+      );
+      await strategy.transferOwnership(await yieldVault.getAddress());
+      await setSplits([projectA.address, projectB.address], [6000, 4000]);
+
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(vault).approve(await yieldVault.getAddress(), amount);
+      await yieldVault.connect(vault).deposit(amount, vault.address);
+
+      const yieldAmount = ethers.parseUnits("50", 6);
+      await mockToken.mint(await strategy.getAddress(), yieldAmount);
+      await strategy.setSimulatedYield(yieldAmount);
+
+      await expect(yieldVault.harvest())
+        .to.emit(splitRouter, "YieldDonated")
+        .withArgs(
+          await mockToken.getAddress(),
+          projectA.address,
+          ethers.parseUnits("30", 6),
+          await yieldVault.getAddress()
+        );
+
+      expect(await mockToken.balanceOf(projectA.address)).to.equal(ethers.parseUnits("30", 6));
+      expect(await mockToken.balanceOf(projectB.address)).to.equal(ethers.parseUnits("20", 6));
+      expect(await yieldVault.totalDonated()).to.equal(yieldAmount);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  Yield4GoodFactory,
+  Yield4GoodVault,
+  MockStrategy,
+  DonationRouter,
+  MockERC20,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("Yield4GoodFactory", function () {
+  let factory: Yield4GoodFactory;
+  let implementation: Yield4GoodVault;
+  let strategy: MockStrategy;
+  let router: DonationRouter;
+  let mockToken: MockERC20;
+  let owner: SignerWithAddress;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+  let creationCode: string;
+
+  async function vaultConfig(causeName = "Clean Water") {
+    return {
+      asset: await mockToken.getAddress(),
+      strategy: await strategy.getAddress(),
+      donationRouter: await router.getAddress(),
+      beneficiary: beneficiary.address,
+      name: "Yield4Good Clean Water",
+      symbol: "Y4G-H2O",
+      admin: admin.address,
+      causeName,
+      uri: "ipfs://clean-water",
+    };
+  }
+
+  async function roleIds(vault: Yield4GoodVault) {
+    return [
+      await vault.DEFAULT_ADMIN_ROLE(),
+      await vault.GUARDIAN_ROLE(),
+      await vault.STRATEGIST_ROLE(),
+      await vault.BENEFICIARY_MANAGER_ROLE(),
+      await vault.KEEPER_ROLE(),
+    ];
+  }
+
+  beforeEach(async function () {
+    [owner, admin, user1, beneficiary] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+
+    const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+    router = await DonationRouterFactory.deploy();
+
+    const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+    strategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+    creationCode = VaultFactory.bytecode;
+    implementation = await VaultFactory.deploy(
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      "",
+      ""
+    );
+    await implementation.waitForDeployment();
+
+    const FactoryFactory = await ethers.getContractFactory("Yield4GoodFactory");
+    factory = await FactoryFactory.deploy(await implementation.getAddress(), ethers.keccak256(creationCode));
+    await factory.waitForDeployment();
+
+    await mockToken.mint(user1.address, ethers.parseUnits("10000", 6));
+  });
+
+  describe("Implementation", function () {
+    it("Should not be initializable", async function () {
+      await expect(
+        implementation.initialize(
+          await mockToken.getAddress(),
+          await strategy.getAddress(),
+          await router.getAddress(),
+          beneficiary.address,
+          "Hijacked",
+          "HJK",
+          user1.address
+        )
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+  });
+
+  describe("Clone", function () {
+    let vault: Yield4GoodVault;
+
+    beforeEach(async function () {
+      const config = await vaultConfig();
+      const vaultAddress = await factory.cloneVault.staticCall(config);
+      await expect(factory.cloneVault(config))
+        .to.emit(factory, "VaultCreated")
+        .withArgs(vaultAddress, config.asset, admin.address, config.causeName, config.uri, true);
+      vault = await ethers.getContractAt("Yield4GoodVault", vaultAddress);
+    });
+
+    it("Should initialize the clone like a directly deployed vault", async function () {
+      expect(await vault.asset()).to.equal(await mockToken.getAddress());
+      expect(await vault.name()).to.equal("Yield4Good Clean Water");
+      expect(await vault.symbol()).to.equal("Y4G-H2O");
+      expect(await vault.decimals()).to.equal(6);
+      expect(await vault.strategies(0)).to.equal(await strategy.getAddress());
+      expect(await vault.donationRouter()).to.equal(await router.getAddress());
+      expect(await vault.beneficiary()).to.equal(beneficiary.address);
+      expect(await vault.timelockDelay()).to.equal(2 * 24 * 60 * 60);
+      expect(await vault.depositCap()).to.equal(ethers.MaxUint256);
+      expect(await vault.accountDepositCap()).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should give every role to the admin and none to the factory", async function () {
+      for (const role of await roleIds(vault)) {
+        expect(await vault.hasRole(role, admin.address)).to.equal(true);
+        expect(await vault.hasRole(role, await factory.getAddress())).to.equal(false);
+      }
+    });
+
+    it("Should not be initializable twice", async function () {
+      const config = await vaultConfig();
+      await expect(
+        vault.initialize(
+          config.asset,
+          config.strategy,
+          config.donationRouter,
+          user1.address,
+          "Hijacked",
+          "HJK",
+          user1.address
+        )
+      ).to.be.revertedWithCustomError(vault, "InvalidInitialization");
+    });
+
+    it("Should accept deposits and donate yield", async function () {
+      await strategy.transferOwnership(await vault.getAddress());
+
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+      expect(await vault.balanceOf(user1.address)).to.equal(amount);
+
+      const yieldAmount = ethers.parseUnits("50", 6);
+      await mockToken.mint(await strategy.getAddress(), yieldAmount);
+      await strategy.setSimulatedYield(yieldAmount);
+      await vault.harvest();
+
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(yieldAmount);
+      expect(await vault.totalAssets()).to.equal(amount);
+    });
+
+    it("Should register the clone", async function () {
+      expect(await factory.vaultCount()).to.equal(1);
+      expect(await factory.getVaults()).to.deep.equal([await vault.getAddress()]);
+      expect(await factory.isVault(await vault.getAddress())).to.equal(true);
+
+      const info = await factory.vaultInfo(await vault.getAddress());
+      expect(info.asset).to.equal(await mockToken.getAddress());
+      expect(info.causeName).to.equal("Clean Water");
+      expect(info.uri).to.equal("ipfs://clean-water");
+      expect(info.isClone).to.equal(true);
+      expect(info.createdAt).to.be.greaterThan(0);
+    });
+  });
+
+  describe("Full deployment", function () {
+    it("Should deploy a standalone vault and hand over its roles", async function () {
+      const config = await vaultConfig("Reforestation");
+      const vaultAddress = await factory.deployVault.staticCall(config, creationCode);
+      await expect(factory.deployVault(config, creationCode))
+        .to.emit(factory, "VaultCreated")
+        .withArgs(vaultAddress, config.asset, admin.address, "Reforestation", config.uri, false);
+
+      const vault = await ethers.getContractAt("Yield4GoodVault", vaultAddress);
+      expect(await vault.name()).to.equal("Yield4Good Clean Water");
+      expect(await vault.asset()).to.equal(await mockToken.getAddress());
+      // A full copy of the vault, not a 45-byte ERC-1167 proxy
+      expect(await ethers.provider.getCode(vaultAddress)).to.equal(
+        await ethers.provider.getCode(await implementation.getAddress())
+      );
+      for (const role of await roleIds(vault)) {
+        expect(await vault.hasRole(role, admin.address)).to.equal(true);
+        expect(await vault.hasRole(role, await factory.getAddress())).to.equal(false);
+      }
+      expect((await factory.vaultInfo(vaultAddress)).isClone).to.equal(false);
+    });
+
+    it("Should reject unknown creation code", async function () {
+      const RouterFactory = await ethers.getContractFactory("DonationRouter");
+      await expect(
+        factory.deployVault(await vaultConfig(), RouterFactory.bytecode)
+      ).to.be.revertedWith("Yield4GoodFactory: unknown creation code");
+    });
+
+    it("Should revert when the vault constructor fails", async function () {
+      const config = { ...(await vaultConfig()), beneficiary: ethers.ZeroAddress };
+      await expect(factory.deployVault(config, creationCode)).to.be.revertedWith(
+        "Yield4GoodFactory: deployment failed"
+      );
+    });
+  });
+
+  describe("Registry", function () {
+    it("Should list vaults in creation order", async function () {
+      await factory.cloneVault(await vaultConfig("Clean Water"));
+      await factory.cloneVault(await vaultConfig("Open Source"));
+      await factory.deployVault(await vaultConfig("Reforestation"), creationCode);
+
+      const vaults = await factory.getVaults();
+      expect(vaults).to.have.length(3);
+      const names = await Promise.all(vaults.map(async (vault) => (await factory.vaultInfo(vault)).causeName));
+      expect(names).to.deep.equal(["Clean Water", "Open Source", "Reforestation"]);
+    });
+
+    it("Should let the owner update metadata", async function () {
+      const vaultAddress = await factory.cloneVault.staticCall(await vaultConfig());
+      await factory.cloneVault(await vaultConfig());
+
+      await expect(factory.setVaultMetadata(vaultAddress, "Safe Water", "ipfs://safe-water"))
+        .to.emit(factory, "VaultMetadataUpdated")
+        .withArgs(vaultAddress, "Safe Water", "ipfs://safe-water");
+
+      const info = await factory.vaultInfo(vaultAddress);
+      expect(info.causeName).to.equal("Safe Water");
+      expect(info.uri).to.equal("ipfs://safe-water");
+
+      await expect(
+        factory.setVaultMetadata(user1.address, "Unknown", "")
+      ).to.be.revertedWith("Yield4GoodFactory: unknown vault");
+    });
+
+    it("Should restrict creation and metadata to the owner", async function () {
+      await expect(
+        factory.connect(user1).cloneVault(await vaultConfig())
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(
+        factory.connect(user1).deployVault(await vaultConfig(), creationCode)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(
+        factory.connect(user1).setVaultMetadata(user1.address, "Cause", "")
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should require a cause name", async function () {
+      await expect(factory.cloneVault(await vaultConfig(""))).to.be.revertedWith(
+        "Yield4GoodFactory: empty cause name"
+      );
+    });
+  });
+});
@@ -1,9 +1,26 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { Yield4GoodVault, MockStrategy, DonationRouter, MockERC20 } from "../typechain-types";
+import {
+  Yield4GoodVault,
+  MockStrategy,
+  MockLossyStrategy,
+  DonationRouter,
+  MockERC20,
+} from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 
+const TIMELOCK_DELAY = 2 * 24 * 60 * 60;
+
+enum ChangeType {
+  Beneficiary,
+  DonationRouter,
+  StrategyMigration,
+  TimelockDelay,
+  Upgrade,
+  StrategyAllocation,
+}
+
 describe("Yield4GoodVault", function () {
   let vault: Yield4GoodVault;
   let strategy: MockStrategy;
@@ -14,6 +31,18 @@ describe("Yield4GoodVault", function () {
   let user2: SignerWithAddress;
   let beneficiary: SignerWithAddress;
 
+  async function migrate(oldStrategy: string, newStrategy: string) {
+    await vault.queueStrategyMigration(oldStrategy, newStrategy);
+    await time.increase(TIMELOCK_DELAY);
+    return vault.executeStrategyMigration();
+  }
+
+  async function allocate(target: string, targetBps: number, maxDebt: bigint) {
+    await vault.queueStrategyAllocation(target, targetBps, maxDebt);
+    await time.increase(TIMELOCK_DELAY);
+    return vault.executeStrategyAllocation();
+  }
+
   beforeEach(async function () {
     [owner, user1, user2, beneficiary] = await ethers.getSigners();
 
@@ -49,10 +78,12 @@ describe("Yield4GoodVault", function () {
   describe("Deployment", function () {
     it("Should set the correct parameters", async function () {
       expect(await vault.asset()).to.equal(await mockToken.getAddress());
-      expect(await vault.strategy()).to.equal(await strategy.getAddress());
+      expect(await vault.strategies(0)).to.equal(await strategy.getAddress());
+      expect(await vault.getWithdrawalQueue()).to.deep.equal([await strategy.getAddress()]);
+      expect(await vault.totalTargetBps()).to.equal(10000);
       expect(await vault.donationRouter()).to.equal(await router.getAddress());
       expect(await vault.beneficiary()).to.equal(beneficiary.address);
-      expect(await vault.owner()).to.equal(owner.address);
+      expect(await vault.hasRole(await vault.DEFAULT_ADMIN_ROLE(), owner.address)).to.equal(true);
       expect(await vault.paused()).to.equal(false);
       expect(await vault.totalDonated()).to.equal(0);
     });
@@ -146,6 +177,99 @@ describe("Yield4GoodVault", function () {
     });
   });
 
+  describe("Deposit with permit", function () {
+    const amount = ethers.parseUnits("1000", 6);
+    let deadline: number;
+
+    async function signPermit(signer: SignerWithAddress, value: bigint, permitDeadline: number) {
+      const signature = await signer.signTypedData(
+        {
+          name: "Mock USDC",
+          version: "1",
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: await mockToken.getAddress(),
+        },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          owner: signer.address,
+          spender: await vault.getAddress(),
+          value,
+          nonce: await mockToken.nonces(signer.address),
+          deadline: permitDeadline,
+        }
+      );
+      return ethers.Signature.from(signature);
+    }
+
+    beforeEach(async function () {
+      deadline = (await time.latest()) + 3600;
+    });
+
+    it("Should deposit without a prior approval", async function () {
+      const { v, r, s } = await signPermit(user1, amount, deadline);
+
+      await expect(
+        vault.connect(user1).depositWithPermit(amount, user1.address, deadline, v, r, s)
+      )
+        .to.emit(vault, "Deposit")
+        .withArgs(user1.address, user1.address, amount, amount);
+
+      expect(await vault.balanceOf(user1.address)).to.equal(amount);
+      expect(await mockToken.allowance(user1.address, await vault.getAddress())).to.equal(0);
+    });
+
+    it("Should still deposit when the permit was already submitted", async function () {
+      const { v, r, s } = await signPermit(user1, amount, deadline);
+      await mockToken
+        .connect(user2)
+        .permit(user1.address, await vault.getAddress(), amount, deadline, v, r, s);
+
+      await vault.connect(user1).depositWithPermit(amount, user1.address, deadline, v, r, s);
+
+      expect(await vault.balanceOf(user1.address)).to.equal(amount);
+    });
+
+    it("Should revert with a signature from another account", async function () {
+      const { v, r, s } = await signPermit(user2, amount, deadline);
+
+      await expect(
+        vault.connect(user1).depositWithPermit(amount, user1.address, deadline, v, r, s)
+      ).to.be.revertedWith("Yield4GoodVault: permit failed");
+    });
+
+    it("Should revert after the deadline", async function () {
+      const { v, r, s } = await signPermit(user1, amount, deadline);
+      await time.increaseTo(deadline + 1);
+
+      await expect(
+        vault.connect(user1).depositWithPermit(amount, user1.address, deadline, v, r, s)
+      ).to.be.revertedWith("Yield4GoodVault: permit failed");
+    });
+
+    it("Should respect the pause and deposit caps", async function () {
+      const { v, r, s } = await signPermit(user1, amount, deadline);
+
+      await vault.setPaused(true);
+      await expect(
+        vault.connect(user1).depositWithPermit(amount, user1.address, deadline, v, r, s)
+      ).to.be.revertedWith("Yield4GoodVault: paused");
+
+      await vault.setPaused(false);
+      await vault.setDepositCap(amount - 1n);
+      await expect(
+        vault.connect(user1).depositWithPermit(amount, user1.address, deadline, v, r, s)
+      ).to.be.revertedWith("Yield4GoodVault: deposit cap exceeded");
+    });
+  });
+
   describe("Withdraw", function () {
     beforeEach(async function () {
       const amount = ethers.parseUnits("1000", 6);
@@ -263,7 +387,10 @@ describe("Yield4GoodVault", function () {
     it("Should allow owner to set beneficiary", async function () {
       const newBeneficiary = user2.address;
       
-      await expect(vault.setBeneficiary(newBeneficiary))
+      await vault.queueBeneficiary(newBeneficiary);
+      await time.increase(TIMELOCK_DELAY);
+
+      await expect(vault.executeBeneficiary())
         .to.emit(vault, "BeneficiaryChanged")
         .withArgs(newBeneficiary);
 
@@ -271,14 +398,17 @@ describe("Yield4GoodVault", function () {
     });
 
     it("Should revert setting zero beneficiary", async function () {
-      await expect(vault.setBeneficiary(ethers.ZeroAddress))
+      await expect(vault.queueBeneficiary(ethers.ZeroAddress))
         .to.be.revertedWith("Yield4GoodVault: zero beneficiary address");
     });
 
     it("Should allow owner to set donation router", async function () {
       const newRouter = user2.address;
       
-      await expect(vault.setDonationRouter(newRouter))
+      await vault.queueDonationRouter(newRouter);
+      await time.increase(TIMELOCK_DELAY);
+
+      await expect(vault.executeDonationRouter())
         .to.emit(vault, "DonationRouterChanged")
         .withArgs(newRouter);
 
@@ -311,15 +441,262 @@ describe("Yield4GoodVault", function () {
       expect(await strategy.principal()).to.equal(amount - divestAmount);
     });
 
-    it("Should revert admin functions for non-owner", async function () {
-      await expect(vault.connect(user1).setBeneficiary(user2.address))
-        .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+    it("Should revert admin functions for accounts without the role", async function () {
+      await expect(vault.connect(user1).queueBeneficiary(user2.address))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
 
       await expect(vault.connect(user1).setPaused(true))
-        .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
 
       await expect(vault.connect(user1).emergencyDivest(ethers.parseUnits("100", 6)))
-        .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Access control", function () {
+    const roles = ["GUARDIAN_ROLE", "STRATEGIST_ROLE", "BENEFICIARY_MANAGER_ROLE", "KEEPER_ROLE"] as const;
+
+    async function roleId(name: (typeof roles)[number]) {
+      return vault[name]();
+    }
+
+    it("Should grant every role to the deployer", async function () {
+      expect(await vault.hasRole(await vault.DEFAULT_ADMIN_ROLE(), owner.address)).to.equal(true);
+      for (const name of roles) {
+        expect(await vault.hasRole(await roleId(name), owner.address)).to.equal(true);
+      }
+    });
+
+    for (const name of roles) {
+      it(`Should grant and revoke ${name} with events`, async function () {
+        const role = await roleId(name);
+
+        await expect(vault.grantRole(role, user1.address))
+          .to.emit(vault, "RoleGranted")
+          .withArgs(role, user1.address, owner.address);
+        expect(await vault.hasRole(role, user1.address)).to.equal(true);
+
+        await expect(vault.revokeRole(role, user1.address))
+          .to.emit(vault, "RoleRevoked")
+          .withArgs(role, user1.address, owner.address);
+        expect(await vault.hasRole(role, user1.address)).to.equal(false);
+      });
+    }
+
+    it("Should let the guardian pause and nothing else", async function () {
+      await vault.grantRole(await vault.GUARDIAN_ROLE(), user1.address);
+
+      await expect(vault.connect(user1).setPaused(true)).to.emit(vault, "Paused").withArgs(true);
+      await expect(vault.connect(user1).queueBeneficiary(user2.address))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+      await expect(vault.connect(user1).emergencyDivest(1n))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should let the strategist manage strategies but not pause", async function () {
+      await vault.grantRole(await vault.STRATEGIST_ROLE(), user1.address);
+
+      await expect(vault.connect(user1).updateStrategy(await strategy.getAddress(), 5000, 0))
+        .to.emit(vault, "StrategyUpdated");
+      await expect(vault.connect(user1).rebalance()).to.emit(vault, "Rebalanced");
+      await expect(vault.connect(user1).setPaused(true))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await vault.GUARDIAN_ROLE());
+    });
+
+    it("Should let the beneficiary manager redirect donations only", async function () {
+      await vault.grantRole(await vault.BENEFICIARY_MANAGER_ROLE(), user1.address);
+
+      await vault.connect(user1).queueBeneficiary(user2.address);
+      await vault.connect(user1).queueDonationRouter(user2.address);
+      await time.increase(TIMELOCK_DELAY);
+
+      await expect(vault.connect(user1).executeBeneficiary())
+        .to.emit(vault, "BeneficiaryChanged")
+        .withArgs(user2.address);
+      await expect(vault.connect(user1).executeDonationRouter())
+        .to.emit(vault, "DonationRouterChanged")
+        .withArgs(user2.address);
+      await expect(vault.connect(user1).setDepositCap(0))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should stop a revoked account from acting", async function () {
+      const guardian = await vault.GUARDIAN_ROLE();
+      await vault.grantRole(guardian, user1.address);
+      await vault.revokeRole(guardian, user1.address);
+
+      await expect(vault.connect(user1).setPaused(true))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should let an account renounce its own role", async function () {
+      const keeperRole = await vault.KEEPER_ROLE();
+      await vault.grantRole(keeperRole, user1.address);
+
+      await expect(vault.connect(user1).renounceRole(keeperRole, user1.address))
+        .to.emit(vault, "RoleRevoked")
+        .withArgs(keeperRole, user1.address, user1.address);
+    });
+
+    it("Should only let the admin manage roles", async function () {
+      await vault.grantRole(await vault.STRATEGIST_ROLE(), user1.address);
+
+      await expect(
+        vault.connect(user1).grantRole(await vault.GUARDIAN_ROLE(), user2.address)
+      ).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Timelock", function () {
+    it("Should default to a two day delay", async function () {
+      expect(await vault.timelockDelay()).to.equal(TIMELOCK_DELAY);
+    });
+
+    it("Should queue a beneficiary change with an eta", async function () {
+      await expect(vault.queueBeneficiary(user2.address))
+        .to.emit(vault, "ChangeQueued")
+        .withArgs(
+          ChangeType.Beneficiary,
+          beneficiary.address,
+          user2.address,
+          0,
+          (await time.latest()) + 1 + TIMELOCK_DELAY
+        );
+
+      const pending = await vault.pendingChanges(ChangeType.Beneficiary);
+      expect(pending.newValue).to.equal(user2.address);
+      expect(pending.eta).to.equal((await time.latest()) + TIMELOCK_DELAY);
+      expect(await vault.beneficiary()).to.equal(beneficiary.address);
+    });
+
+    it("Should not execute before the delay has passed", async function () {
+      await vault.queueBeneficiary(user2.address);
+      await time.increase(TIMELOCK_DELAY - 10);
+
+      await expect(vault.executeBeneficiary()).to.be.revertedWith(
+        "Yield4GoodVault: timelock not expired"
+      );
+    });
+
+    it("Should execute once the delay has passed and clear the queue", async function () {
+      await vault.queueDonationRouter(user2.address);
+      await time.increase(TIMELOCK_DELAY);
+
+      await vault.executeDonationRouter();
+
+      expect(await vault.donationRouter()).to.equal(user2.address);
+      expect((await vault.pendingChanges(ChangeType.DonationRouter)).eta).to.equal(0);
+      await expect(vault.executeDonationRouter()).to.be.revertedWith(
+        "Yield4GoodVault: change not queued"
+      );
+    });
+
+    it("Should not overwrite a queued change", async function () {
+      await vault.queueBeneficiary(user2.address);
+
+      await expect(vault.queueBeneficiary(user1.address)).to.be.revertedWith(
+        "Yield4GoodVault: change already queued"
+      );
+    });
+
+    it("Should let the proposer or a guardian cancel", async function () {
+      await vault.grantRole(await vault.GUARDIAN_ROLE(), user1.address);
+      await vault.queueBeneficiary(user2.address);
+
+      await expect(vault.connect(user1).cancelChange(ChangeType.Beneficiary))
+        .to.emit(vault, "ChangeCancelled")
+        .withArgs(ChangeType.Beneficiary);
+
+      await time.increase(TIMELOCK_DELAY);
+      await expect(vault.executeBeneficiary()).to.be.revertedWith(
+        "Yield4GoodVault: change not queued"
+      );
+
+      await vault.queueBeneficiary(user2.address);
+      await expect(vault.cancelChange(ChangeType.Beneficiary)).to.emit(vault, "ChangeCancelled");
+    });
+
+    it("Should revert cancel from other accounts or with nothing queued", async function () {
+      await vault.queueBeneficiary(user2.address);
+
+      await expect(vault.connect(user1).cancelChange(ChangeType.Beneficiary)).to.be.revertedWith(
+        "Yield4GoodVault: caller cannot cancel"
+      );
+      await expect(vault.cancelChange(ChangeType.DonationRouter)).to.be.revertedWith(
+        "Yield4GoodVault: change not queued"
+      );
+    });
+
+    it("Should timelock strategy migration", async function () {
+      const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+      const newStrategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+      await newStrategy.transferOwnership(await vault.getAddress());
+
+      await expect(
+        vault.queueStrategyMigration(await strategy.getAddress(), await newStrategy.getAddress())
+      )
+        .to.emit(vault, "ChangeQueued")
+        .withArgs(
+          ChangeType.StrategyMigration,
+          await strategy.getAddress(),
+          await newStrategy.getAddress(),
+          0,
+          (await time.latest()) + 1 + TIMELOCK_DELAY
+        );
+
+      await expect(vault.executeStrategyMigration()).to.be.revertedWith(
+        "Yield4GoodVault: timelock not expired"
+      );
+
+      await time.increase(TIMELOCK_DELAY);
+      await expect(vault.executeStrategyMigration()).to.emit(vault, "StrategyMigrated");
+      expect(await vault.getStrategies()).to.deep.equal([await newStrategy.getAddress()]);
+    });
+
+    it("Should re-validate a migration when it executes", async function () {
+      const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+      const newStrategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+
+      await vault.queueStrategyMigration(await strategy.getAddress(), await newStrategy.getAddress());
+      await vault.updateStrategy(await strategy.getAddress(), 0, ethers.MaxUint256);
+      await allocate(await newStrategy.getAddress(), 0, ethers.MaxUint256);
+      await time.increase(TIMELOCK_DELAY);
+
+      await expect(vault.executeStrategyMigration()).to.be.revertedWith(
+        "Yield4GoodVault: strategy already added"
+      );
+    });
+
+    it("Should timelock changes to the delay itself", async function () {
+      await expect(vault.queueTimelockDelay(0))
+        .to.emit(vault, "ChangeQueued")
+        .withArgs(
+          ChangeType.TimelockDelay,
+          ethers.ZeroAddress,
+          ethers.ZeroAddress,
+          0,
+          (await time.latest()) + 1 + TIMELOCK_DELAY
+        );
+      await expect(vault.executeTimelockDelay()).to.be.revertedWith(
+        "Yield4GoodVault: timelock not expired"
+      );
+
+      await time.increase(TIMELOCK_DELAY);
+      await expect(vault.executeTimelockDelay()).to.emit(vault, "TimelockDelayChanged").withArgs(0);
+
+      // With no delay a change can execute in the next block
+      await vault.queueBeneficiary(user2.address);
+      await vault.executeBeneficiary();
+      expect(await vault.beneficiary()).to.equal(user2.address);
+    });
+
+    it("Should cap the delay and restrict it to the admin", async function () {
+      await expect(vault.queueTimelockDelay(30 * 24 * 60 * 60 + 1)).to.be.revertedWith(
+        "Yield4GoodVault: delay exceeds maximum"
+      );
+      await expect(vault.connect(user1).queueTimelockDelay(0))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -365,6 +742,798 @@ describe("Yield4GoodVault", function () {
     });
   });
 
+  describe("Multi-strategy allocation", function () {
+    let strategy2: MockStrategy;
+    let strategy3: MockStrategy;
+
+    async function deployStrategy(): Promise<MockStrategy> {
+      const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+      const newStrategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+      await newStrategy.waitForDeployment();
+      await newStrategy.transferOwnership(await vault.getAddress());
+      return newStrategy;
+    }
+
+    async function depositFor(user: SignerWithAddress, amount: bigint) {
+      await mockToken.connect(user).approve(await vault.getAddress(), amount);
+      await vault.connect(user).deposit(amount, user.address);
+    }
+
+    beforeEach(async function () {
+      strategy2 = await deployStrategy();
+      strategy3 = await deployStrategy();
+    });
+
+    it("Should add a strategy with target weight and max debt", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 6000, ethers.MaxUint256);
+
+      await expect(allocate(await strategy2.getAddress(), 4000, ethers.parseUnits("500", 6)))
+        .to.emit(vault, "StrategyAdded")
+        .withArgs(await strategy2.getAddress(), 4000, ethers.parseUnits("500", 6));
+
+      const params = await vault.strategyParams(await strategy2.getAddress());
+      expect(params.targetBps).to.equal(4000);
+      expect(params.maxDebt).to.equal(ethers.parseUnits("500", 6));
+      expect(params.active).to.equal(true);
+      expect(await vault.totalTargetBps()).to.equal(10000);
+      expect(await vault.getStrategies()).to.deep.equal([
+        await strategy.getAddress(),
+        await strategy2.getAddress(),
+      ]);
+    });
+
+    it("Should not fund a queued strategy before the timelock expires", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+
+      await vault.updateStrategy(await strategy.getAddress(), 0, ethers.MaxUint256);
+      await expect(
+        vault.queueStrategyAllocation(await strategy2.getAddress(), 10000, ethers.MaxUint256)
+      )
+        .to.emit(vault, "ChangeQueued")
+        .withArgs(
+          ChangeType.StrategyAllocation,
+          ethers.ZeroAddress,
+          await strategy2.getAddress(),
+          0,
+          (await time.latest()) + 1 + TIMELOCK_DELAY
+        );
+      await vault.rebalance();
+
+      expect(await strategy2.principal()).to.equal(0);
+      expect((await vault.strategyParams(await strategy2.getAddress())).active).to.equal(false);
+      expect(await mockToken.balanceOf(await vault.getAddress())).to.equal(
+        ethers.parseUnits("1000", 6)
+      );
+      await expect(vault.executeStrategyAllocation()).to.be.revertedWith(
+        "Yield4GoodVault: timelock not expired"
+      );
+
+      await time.increase(TIMELOCK_DELAY);
+      await vault.executeStrategyAllocation();
+      await vault.rebalance();
+      expect(await strategy2.principal()).to.equal(ethers.parseUnits("1000", 6));
+    });
+
+    it("Should only lower an allocation without the timelock", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 5000, ethers.parseUnits("500", 6));
+
+      await expect(
+        vault.updateStrategy(await strategy.getAddress(), 6000, ethers.parseUnits("500", 6))
+      ).to.be.revertedWith("Yield4GoodVault: not a decrease");
+      await expect(
+        vault.updateStrategy(await strategy.getAddress(), 5000, ethers.MaxUint256)
+      ).to.be.revertedWith("Yield4GoodVault: not a decrease");
+
+      await expect(allocate(await strategy.getAddress(), 6000, ethers.MaxUint256))
+        .to.emit(vault, "StrategyUpdated")
+        .withArgs(await strategy.getAddress(), 6000, ethers.MaxUint256);
+      expect(await vault.totalTargetBps()).to.equal(6000);
+    });
+
+    it("Should update a queued strategy that joined through a migration", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 6000, ethers.MaxUint256);
+      await vault.queueStrategyAllocation(await strategy2.getAddress(), 4000, ethers.MaxUint256);
+      await migrate(await strategy.getAddress(), await strategy2.getAddress());
+      expect((await vault.strategyParams(await strategy2.getAddress())).targetBps).to.equal(6000);
+
+      await expect(vault.executeStrategyAllocation())
+        .to.emit(vault, "StrategyUpdated")
+        .withArgs(await strategy2.getAddress(), 4000, ethers.MaxUint256);
+      expect(await vault.totalTargetBps()).to.equal(4000);
+      expect(await vault.getStrategies()).to.deep.equal([await strategy2.getAddress()]);
+    });
+
+    it("Should revert when targets exceed 100%", async function () {
+      await expect(
+        vault.queueStrategyAllocation(await strategy2.getAddress(), 1, ethers.MaxUint256)
+      ).to.be.revertedWith("Yield4GoodVault: target exceeds 100%");
+    });
+
+    it("Should revert when strategy asset does not match", async function () {
+      const ERC20Factory = await ethers.getContractFactory("MockERC20");
+      const otherToken = await ERC20Factory.deploy("Mock DAI", "DAI", 18);
+      const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+      const otherStrategy = await MockStrategyFactory.deploy(await otherToken.getAddress());
+
+      await expect(
+        vault.queueStrategyAllocation(await otherStrategy.getAddress(), 0, ethers.MaxUint256)
+      ).to.be.revertedWith("Yield4GoodVault: asset mismatch");
+    });
+
+    it("Should split deposits by target weight", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 6000, ethers.MaxUint256);
+      await allocate(await strategy2.getAddress(), 4000, ethers.MaxUint256);
+
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+
+      expect(await strategy.principal()).to.equal(ethers.parseUnits("600", 6));
+      expect(await strategy2.principal()).to.equal(ethers.parseUnits("400", 6));
+      expect(await vault.totalDebt()).to.equal(ethers.parseUnits("1000", 6));
+    });
+
+    it("Should cap allocation at max debt and keep the rest idle", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 6000, ethers.MaxUint256);
+      await allocate(await strategy2.getAddress(), 4000, ethers.parseUnits("100", 6));
+
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+
+      expect(await strategy2.principal()).to.equal(ethers.parseUnits("100", 6));
+      expect(await mockToken.balanceOf(await vault.getAddress())).to.equal(
+        ethers.parseUnits("300", 6)
+      );
+      expect(await vault.totalAssets()).to.equal(ethers.parseUnits("1000", 6));
+    });
+
+    it("Should rebalance capital towards new targets", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      expect(await strategy.principal()).to.equal(ethers.parseUnits("1000", 6));
+
+      await vault.updateStrategy(await strategy.getAddress(), 2000, ethers.MaxUint256);
+      await allocate(await strategy2.getAddress(), 3000, ethers.MaxUint256);
+      await allocate(await strategy3.getAddress(), 5000, ethers.MaxUint256);
+
+      expect(await vault.targetDebt(await strategy3.getAddress())).to.equal(
+        ethers.parseUnits("500", 6)
+      );
+
+      await expect(vault.rebalance())
+        .to.emit(vault, "Rebalanced")
+        .withArgs(ethers.parseUnits("1000", 6));
+
+      expect(await strategy.principal()).to.equal(ethers.parseUnits("200", 6));
+      expect(await strategy2.principal()).to.equal(ethers.parseUnits("300", 6));
+      expect(await strategy3.principal()).to.equal(ethers.parseUnits("500", 6));
+      expect((await vault.strategyParams(await strategy3.getAddress())).debt).to.equal(
+        ethers.parseUnits("500", 6)
+      );
+    });
+
+    it("Should allow the keeper to rebalance", async function () {
+      await vault.grantRole(await vault.KEEPER_ROLE(), user2.address);
+
+      await expect(vault.connect(user2).rebalance()).to.not.be.reverted;
+      await expect(vault.connect(user1).rebalance()).to.be.revertedWith(
+        "Yield4GoodVault: caller is not keeper or strategist"
+      );
+    });
+
+    it("Should pull withdrawals in queue order", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 5000, ethers.MaxUint256);
+      await allocate(await strategy2.getAddress(), 5000, ethers.MaxUint256);
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+
+      await expect(
+        vault.setWithdrawalQueue([await strategy2.getAddress(), await strategy.getAddress()])
+      )
+        .to.emit(vault, "WithdrawalQueueUpdated")
+        .withArgs([await strategy2.getAddress(), await strategy.getAddress()]);
+
+      await vault
+        .connect(user1)
+        .withdraw(ethers.parseUnits("700", 6), user1.address, user1.address);
+
+      expect(await strategy2.principal()).to.equal(0);
+      expect(await strategy.principal()).to.equal(ethers.parseUnits("300", 6));
+    });
+
+    it("Should validate the withdrawal queue", async function () {
+      await allocate(await strategy2.getAddress(), 0, ethers.MaxUint256);
+
+      await expect(
+        vault.setWithdrawalQueue([await strategy2.getAddress()])
+      ).to.be.revertedWith("Yield4GoodVault: queue length mismatch");
+
+      await expect(
+        vault.setWithdrawalQueue([await strategy2.getAddress(), await strategy2.getAddress()])
+      ).to.be.revertedWith("Yield4GoodVault: duplicate strategy");
+
+      await expect(
+        vault.setWithdrawalQueue([await strategy2.getAddress(), await strategy3.getAddress()])
+      ).to.be.revertedWith("Yield4GoodVault: strategy not active");
+    });
+
+    it("Should harvest every strategy in one call", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 5000, ethers.MaxUint256);
+      await allocate(await strategy2.getAddress(), 5000, ethers.MaxUint256);
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+
+      const yield1 = ethers.parseUnits("30", 6);
+      const yield2 = ethers.parseUnits("20", 6);
+      await mockToken.mint(await strategy.getAddress(), yield1);
+      await strategy.setSimulatedYield(yield1);
+      await mockToken.mint(await strategy2.getAddress(), yield2);
+      await strategy2.setSimulatedYield(yield2);
+
+      await expect(vault.harvest())
+        .to.emit(vault, "StrategyHarvested")
+        .withArgs(await strategy.getAddress(), yield1)
+        .and.to.emit(vault, "StrategyHarvested")
+        .withArgs(await strategy2.getAddress(), yield2)
+        .and.to.emit(vault, "Harvest")
+        .withArgs(yield1 + yield2, beneficiary.address);
+
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(yield1 + yield2);
+    });
+
+    it("Should only remove a strategy once it holds no debt", async function () {
+      await vault.updateStrategy(await strategy.getAddress(), 5000, ethers.MaxUint256);
+      await allocate(await strategy2.getAddress(), 5000, ethers.MaxUint256);
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+
+      await expect(
+        vault.removeStrategy(await strategy2.getAddress())
+      ).to.be.revertedWith("Yield4GoodVault: strategy has debt");
+
+      await vault.updateStrategy(await strategy2.getAddress(), 0, ethers.MaxUint256);
+      await allocate(await strategy.getAddress(), 10000, ethers.MaxUint256);
+      await vault.rebalance();
+
+      await expect(vault.removeStrategy(await strategy2.getAddress()))
+        .to.emit(vault, "StrategyRemoved")
+        .withArgs(await strategy2.getAddress());
+
+      expect(await vault.getStrategies()).to.deep.equal([await strategy.getAddress()]);
+      expect(await vault.getWithdrawalQueue()).to.deep.equal([await strategy.getAddress()]);
+      expect(await strategy.principal()).to.equal(ethers.parseUnits("1000", 6));
+    });
+
+    it("Should revert strategy management for non-strategists", async function () {
+      await expect(
+        vault.connect(user1).queueStrategyAllocation(await strategy2.getAddress(), 0, ethers.MaxUint256)
+      ).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+
+      await expect(
+        vault.connect(user1).grantRole(await vault.KEEPER_ROLE(), user1.address)
+      ).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Strategy migration", function () {
+    let newStrategy: MockStrategy;
+
+    beforeEach(async function () {
+      const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+      newStrategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+      await newStrategy.waitForDeployment();
+      await newStrategy.transferOwnership(await vault.getAddress());
+
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+    });
+
+    it("Should move principal into the new strategy", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+
+      await expect(migrate(await strategy.getAddress(), await newStrategy.getAddress()))
+        .to.emit(vault, "StrategyMigrated")
+        .withArgs(await strategy.getAddress(), await newStrategy.getAddress(), amount, 0);
+
+      expect(await strategy.principal()).to.equal(0);
+      expect(await newStrategy.principal()).to.equal(amount);
+      expect(await vault.totalAssets()).to.equal(amount);
+      expect(await vault.getStrategies()).to.deep.equal([await newStrategy.getAddress()]);
+      expect(await vault.getWithdrawalQueue()).to.deep.equal([await newStrategy.getAddress()]);
+
+      const params = await vault.strategyParams(await newStrategy.getAddress());
+      expect(params.targetBps).to.equal(10000);
+      expect(params.debt).to.equal(amount);
+      expect((await vault.strategyParams(await strategy.getAddress())).active).to.equal(false);
+    });
+
+    it("Should harvest and donate the old strategy's yield first", async function () {
+      const yieldAmount = ethers.parseUnits("25", 6);
+      await mockToken.mint(await strategy.getAddress(), yieldAmount);
+      await strategy.setSimulatedYield(yieldAmount);
+
+      await expect(migrate(await strategy.getAddress(), await newStrategy.getAddress()))
+        .to.emit(vault, "Harvest")
+        .withArgs(yieldAmount, beneficiary.address);
+
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(yieldAmount);
+      expect(await newStrategy.principal()).to.equal(ethers.parseUnits("1000", 6));
+    });
+
+    it("Should keep withdrawals working after migration", async function () {
+      await migrate(await strategy.getAddress(), await newStrategy.getAddress());
+
+      const shares = await vault.balanceOf(user1.address);
+      const balanceBefore = await mockToken.balanceOf(user1.address);
+      await vault.connect(user1).redeem(shares, user1.address, user1.address);
+
+      expect(await mockToken.balanceOf(user1.address)).to.equal(
+        balanceBefore + ethers.parseUnits("1000", 6)
+      );
+    });
+
+    describe("Lossy old strategy", function () {
+      let lossyStrategy: MockLossyStrategy;
+
+      beforeEach(async function () {
+        const LossyFactory = await ethers.getContractFactory("MockLossyStrategy");
+        lossyStrategy = await LossyFactory.deploy(await mockToken.getAddress(), 0);
+        await lossyStrategy.waitForDeployment();
+        await lossyStrategy.transferOwnership(await vault.getAddress());
+
+        await vault.updateStrategy(await strategy.getAddress(), 5000, ethers.MaxUint256);
+        await allocate(await lossyStrategy.getAddress(), 5000, ethers.MaxUint256);
+        await vault.rebalance();
+        expect(await lossyStrategy.principal()).to.equal(ethers.parseUnits("500", 6));
+
+        // 1% haircut on exit
+        await lossyStrategy.setLossBps(100);
+      });
+
+      it("Should revert when the loss exceeds the tolerance", async function () {
+        await expect(
+          migrate(await lossyStrategy.getAddress(), await newStrategy.getAddress())
+        ).to.be.revertedWith("Yield4GoodVault: migration loss exceeds tolerance");
+
+        expect(await lossyStrategy.principal()).to.equal(ethers.parseUnits("500", 6));
+      });
+
+      it("Should migrate and report the loss within tolerance", async function () {
+        await expect(vault.setMigrationLossTolerance(100))
+          .to.emit(vault, "MigrationLossToleranceChanged")
+          .withArgs(100);
+
+        await expect(
+          migrate(await lossyStrategy.getAddress(), await newStrategy.getAddress())
+        )
+          .to.emit(vault, "StrategyMigrated")
+          .withArgs(
+            await lossyStrategy.getAddress(),
+            await newStrategy.getAddress(),
+            ethers.parseUnits("495", 6),
+            ethers.parseUnits("5", 6)
+          );
+
+        expect(await newStrategy.principal()).to.equal(ethers.parseUnits("495", 6));
+        expect(await vault.totalDebt()).to.equal(ethers.parseUnits("995", 6));
+        expect(await vault.totalAssets()).to.equal(ethers.parseUnits("995", 6));
+        expect(await vault.unrecoveredLoss()).to.equal(ethers.parseUnits("5", 6));
+        expect(await vault.getWithdrawalQueue()).to.deep.equal([
+          await strategy.getAddress(),
+          await newStrategy.getAddress(),
+        ]);
+      });
+    });
+
+    it("Should revert for invalid migrations", async function () {
+      await expect(
+        vault.queueStrategyMigration(await newStrategy.getAddress(), await strategy.getAddress())
+      ).to.be.revertedWith("Yield4GoodVault: strategy not active");
+
+      await expect(
+        vault.queueStrategyMigration(await strategy.getAddress(), await strategy.getAddress())
+      ).to.be.revertedWith("Yield4GoodVault: strategy already added");
+
+      await expect(
+        vault.queueStrategyMigration(await strategy.getAddress(), ethers.ZeroAddress)
+      ).to.be.revertedWith("Yield4GoodVault: zero strategy address");
+
+      await expect(vault.setMigrationLossTolerance(10001)).to.be.revertedWith(
+        "Yield4GoodVault: tolerance exceeds 100%"
+      );
+    });
+
+    it("Should revert migration for non-strategists", async function () {
+      await expect(
+        vault
+          .connect(user1)
+          .queueStrategyMigration(await strategy.getAddress(), await newStrategy.getAddress())
+      ).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Donation attribution", function () {
+    async function depositFor(user: SignerWithAddress, amount: bigint) {
+      await mockToken.connect(user).approve(await vault.getAddress(), amount);
+      await vault.connect(user).deposit(amount, user.address);
+    }
+
+    async function harvestYield(amount: bigint) {
+      await mockToken.mint(await strategy.getAddress(), amount);
+      await strategy.setSimulatedYield(amount);
+      await vault.harvest();
+    }
+
+    it("Should attribute all yield to a single depositor", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+
+      expect(await vault.donatedBy(user1.address)).to.equal(ethers.parseUnits("50", 6));
+      expect(await vault.donatedBy(user2.address)).to.equal(0);
+    });
+
+    it("Should attribute yield pro rata to shares", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await depositFor(user2, ethers.parseUnits("2000", 6));
+      await harvestYield(ethers.parseUnits("150", 6));
+
+      expect(await vault.donatedBy(user1.address)).to.equal(ethers.parseUnits("50", 6));
+      expect(await vault.donatedBy(user2.address)).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should not attribute earlier harvests to later depositors", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+
+      await depositFor(user2, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("20", 6));
+
+      expect(await vault.donatedBy(user1.address)).to.equal(ethers.parseUnits("60", 6));
+      expect(await vault.donatedBy(user2.address)).to.equal(ethers.parseUnits("10", 6));
+    });
+
+    it("Should keep attributed donations after a full withdrawal", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+
+      const shares = await vault.balanceOf(user1.address);
+      await vault.connect(user1).redeem(shares, user1.address, user1.address);
+
+      expect(await vault.donatedBy(user1.address)).to.equal(ethers.parseUnits("50", 6));
+    });
+
+    it("Should follow shares on transfer", async function () {
+      await depositFor(user1, ethers.parseUnits("1000", 6));
+      await harvestYield(ethers.parseUnits("50", 6));
+
+      const shares = await vault.balanceOf(user1.address);
+      await vault.connect(user1).transfer(user2.address, shares / 2n);
+      await harvestYield(ethers.parseUnits("20", 6));
+
+      expect(await vault.donatedBy(user1.address)).to.equal(ethers.parseUnits("60", 6));
+      expect(await vault.donatedBy(user2.address)).to.equal(ethers.parseUnits("10", 6));
+    });
+
+    it("Should sum to total donated across depositors", async function () {
+      await depositFor(user1, ethers.parseUnits("333", 6));
+      await depositFor(user2, ethers.parseUnits("777", 6));
+      await harvestYield(ethers.parseUnits("13", 6));
+      await harvestYield(ethers.parseUnits("7", 6));
+
+      const attributed =
+        (await vault.donatedBy(user1.address)) + (await vault.donatedBy(user2.address));
+      expect(attributed).to.be.closeTo(await vault.totalDonated(), 2n);
+    });
+  });
+
+  describe("Loss handling", function () {
+    const amount = ethers.parseUnits("1000", 6);
+    const loss = ethers.parseUnits("200", 6);
+
+    async function harvestYield(yieldAmount: bigint) {
+      await mockToken.mint(await strategy.getAddress(), yieldAmount);
+      await strategy.setSimulatedYield(yieldAmount);
+      return vault.harvest();
+    }
+
+    beforeEach(async function () {
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+      await mockToken.connect(user2).approve(await vault.getAddress(), amount);
+      await vault.connect(user2).deposit(amount, user2.address);
+    });
+
+    it("Should spread an unrealized loss across share price immediately", async function () {
+      await strategy.simulateLoss(loss);
+
+      expect(await vault.totalAssets()).to.equal(2n * amount - loss);
+      expect(await vault.totalDebt()).to.equal(2n * amount);
+      expect(await vault.previewRedeem(await vault.balanceOf(user1.address))).to.equal(
+        amount - loss / 2n
+      );
+      expect(await vault.previewRedeem(await vault.balanceOf(user2.address))).to.equal(
+        amount - loss / 2n
+      );
+    });
+
+    it("Should pay partial-loss withdrawals pro rata", async function () {
+      await strategy.simulateLoss(loss);
+
+      const balanceBefore = await mockToken.balanceOf(user1.address);
+      const shares = await vault.balanceOf(user1.address);
+      await vault.connect(user1).redeem(shares, user1.address, user1.address);
+
+      expect(await mockToken.balanceOf(user1.address)).to.equal(balanceBefore + amount - loss / 2n);
+      expect(await vault.previewRedeem(await vault.balanceOf(user2.address))).to.equal(
+        amount - loss / 2n
+      );
+
+      const user2Before = await mockToken.balanceOf(user2.address);
+      await vault
+        .connect(user2)
+        .redeem(await vault.balanceOf(user2.address), user2.address, user2.address);
+      expect(await mockToken.balanceOf(user2.address)).to.equal(user2Before + amount - loss / 2n);
+      expect(await vault.totalAssets()).to.equal(0);
+    });
+
+    it("Should pay withdrawals from a strategy that pays out pro rata", async function () {
+      const LossyFactory = await ethers.getContractFactory("MockLossyStrategy");
+      const lossyStrategy = await LossyFactory.deploy(await mockToken.getAddress(), 0);
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+      const lossyVault = await VaultFactory.deploy(
+        await mockToken.getAddress(),
+        await lossyStrategy.getAddress(),
+        await router.getAddress(),
+        beneficiary.address,
+        "Yield4Good Vault",
+        "Y4G"
+      );
+      await lossyStrategy.transferOwnership(await lossyVault.getAddress());
+      for (const user of [user1, user2]) {
+        await mockToken.connect(user).approve(await lossyVault.getAddress(), amount);
+        await lossyVault.connect(user).deposit(amount, user.address);
+      }
+
+      // 1% haircut on every divest
+      await lossyStrategy.setLossBps(100);
+      const haircut = amount / 100n;
+      expect(await lossyVault.totalAssets()).to.equal(2n * (amount - haircut));
+
+      const maxWithdraw = await lossyVault.maxWithdraw(user1.address);
+      expect(maxWithdraw).to.equal(amount - haircut);
+      const user1Before = await mockToken.balanceOf(user1.address);
+      await expect(lossyVault.connect(user1).withdraw(maxWithdraw, user1.address, user1.address))
+        .to.emit(lossyVault, "LossReported")
+        .withArgs(await lossyStrategy.getAddress(), haircut);
+      expect(await mockToken.balanceOf(user1.address)).to.equal(user1Before + amount - haircut);
+
+      const user2Before = await mockToken.balanceOf(user2.address);
+      await lossyVault
+        .connect(user2)
+        .redeem(await lossyVault.maxRedeem(user2.address), user2.address, user2.address);
+      expect(await mockToken.balanceOf(user2.address)).to.equal(user2Before + amount - haircut);
+      expect(await lossyVault.totalSupply()).to.equal(0);
+      expect(await lossyVault.totalDebt()).to.equal(0);
+      expect(await lossyVault.totalLoss()).to.equal(2n * haircut);
+    });
+
+    it("Should record a divest shortfall as a realized loss", async function () {
+      await strategy.simulateLoss(loss);
+
+      await expect(vault.emergencyDivest(2n * amount))
+        .to.emit(vault, "LossReported")
+        .withArgs(await strategy.getAddress(), loss)
+        .and.to.emit(vault, "EmergencyDivest")
+        .withArgs(2n * amount - loss);
+
+      expect(await vault.totalDebt()).to.equal(0);
+      expect(await vault.totalLoss()).to.equal(loss);
+      expect(await vault.unrecoveredLoss()).to.equal(loss);
+      expect(await vault.totalAssets()).to.equal(2n * amount - loss);
+    });
+
+    it("Should write down debt when harvest reports a loss", async function () {
+      await strategy.simulateLoss(loss);
+
+      await expect(vault.harvest())
+        .to.emit(vault, "LossReported")
+        .withArgs(await strategy.getAddress(), loss)
+        .and.not.to.emit(vault, "Harvest");
+
+      const params = await vault.strategyParams(await strategy.getAddress());
+      expect(params.debt).to.equal(2n * amount - loss);
+      expect(await vault.totalDebt()).to.equal(2n * amount - loss);
+      expect(await vault.totalAssets()).to.equal(2n * amount - loss);
+      expect(await vault.unrecoveredLoss()).to.equal(loss);
+    });
+
+    it("Should skip donating until the loss is recovered", async function () {
+      await strategy.simulateLoss(loss);
+      await vault.harvest();
+
+      const firstYield = ethers.parseUnits("150", 6);
+      await expect(harvestYield(firstYield))
+        .to.emit(vault, "LossRecovered")
+        .withArgs(firstYield)
+        .and.not.to.emit(vault, "Harvest");
+
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(0);
+      expect(await vault.unrecoveredLoss()).to.equal(loss - firstYield);
+      expect(await vault.totalAssets()).to.equal(2n * amount - loss + firstYield);
+
+      const secondYield = ethers.parseUnits("80", 6);
+      await expect(harvestYield(secondYield))
+        .to.emit(vault, "LossRecovered")
+        .withArgs(loss - firstYield)
+        .and.to.emit(vault, "Harvest")
+        .withArgs(ethers.parseUnits("30", 6), beneficiary.address);
+
+      expect(await vault.unrecoveredLoss()).to.equal(0);
+      expect(await vault.totalLoss()).to.equal(loss);
+      expect(await vault.totalAssets()).to.equal(2n * amount);
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(ethers.parseUnits("30", 6));
+    });
+
+    it("Should net unrecovered loss out of pending donation", async function () {
+      await strategy.simulateLoss(loss);
+      await vault.harvest();
+
+      await strategy.setSimulatedYield(ethers.parseUnits("50", 6));
+      expect(await vault.pendingDonation()).to.equal(0);
+
+      await strategy.setSimulatedYield(ethers.parseUnits("250", 6));
+      expect(await vault.pendingDonation()).to.equal(ethers.parseUnits("50", 6));
+    });
+  });
+
+  describe("Deposit caps", function () {
+    const cap = ethers.parseUnits("1500", 6);
+    const accountCap = ethers.parseUnits("1000", 6);
+
+    beforeEach(async function () {
+      await mockToken.connect(user1).approve(await vault.getAddress(), ethers.MaxUint256);
+      await mockToken.connect(user2).approve(await vault.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should be uncapped by default", async function () {
+      expect(await vault.depositCap()).to.equal(ethers.MaxUint256);
+      expect(await vault.accountDepositCap()).to.equal(ethers.MaxUint256);
+      expect(await vault.maxDeposit(user1.address)).to.equal(ethers.MaxUint256);
+      expect(await vault.maxMint(user1.address)).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should report remaining global capacity", async function () {
+      await expect(vault.setDepositCap(cap)).to.emit(vault, "DepositCapChanged").withArgs(cap);
+
+      await vault.connect(user1).deposit(ethers.parseUnits("600", 6), user1.address);
+
+      expect(await vault.maxDeposit(user2.address)).to.equal(ethers.parseUnits("900", 6));
+      expect(await vault.maxMint(user2.address)).to.equal(
+        await vault.convertToShares(ethers.parseUnits("900", 6))
+      );
+    });
+
+    it("Should revert deposits above the global cap", async function () {
+      await vault.setDepositCap(cap);
+      await vault.connect(user1).deposit(ethers.parseUnits("1000", 6), user1.address);
+
+      await expect(
+        vault.connect(user2).deposit(ethers.parseUnits("501", 6), user2.address)
+      ).to.be.revertedWith("Yield4GoodVault: deposit cap exceeded");
+
+      await vault.connect(user2).deposit(ethers.parseUnits("500", 6), user2.address);
+      expect(await vault.maxDeposit(user2.address)).to.equal(0);
+      expect(await vault.maxMint(user2.address)).to.equal(0);
+    });
+
+    it("Should cap each account's position", async function () {
+      await expect(vault.setAccountDepositCap(accountCap))
+        .to.emit(vault, "AccountDepositCapChanged")
+        .withArgs(accountCap);
+
+      await vault.connect(user1).deposit(ethers.parseUnits("700", 6), user1.address);
+      expect(await vault.maxDeposit(user1.address)).to.equal(ethers.parseUnits("300", 6));
+      expect(await vault.maxDeposit(user2.address)).to.equal(accountCap);
+
+      await expect(
+        vault.connect(user1).deposit(ethers.parseUnits("301", 6), user1.address)
+      ).to.be.revertedWith("Yield4GoodVault: account deposit cap exceeded");
+    });
+
+    it("Should apply the account cap to the receiver", async function () {
+      await vault.setAccountDepositCap(accountCap);
+      await vault.connect(user1).deposit(accountCap, user1.address);
+
+      await expect(
+        vault.connect(user2).deposit(1n, user1.address)
+      ).to.be.revertedWith("Yield4GoodVault: account deposit cap exceeded");
+    });
+
+    it("Should report the tighter of the two caps", async function () {
+      await vault.setDepositCap(cap);
+      await vault.setAccountDepositCap(accountCap);
+      await vault.connect(user1).deposit(ethers.parseUnits("1000", 6), user1.address);
+
+      expect(await vault.maxDeposit(user1.address)).to.equal(0);
+      expect(await vault.maxDeposit(user2.address)).to.equal(ethers.parseUnits("500", 6));
+    });
+
+    it("Should enforce caps on mint", async function () {
+      await vault.setDepositCap(cap);
+
+      const maxShares = await vault.maxMint(user1.address);
+      await vault.connect(user1).mint(maxShares, user1.address);
+      expect(await vault.totalAssets()).to.equal(cap);
+
+      await expect(vault.connect(user2).mint(1n, user2.address)).to.be.revertedWith(
+        "Yield4GoodVault: deposit cap exceeded"
+      );
+    });
+
+    it("Should revert cap updates from non-admins", async function () {
+      await expect(vault.connect(user1).setDepositCap(cap))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+      await expect(vault.connect(user1).setAccountDepositCap(accountCap))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Harvest trigger", function () {
+    const gasCost = ethers.parseUnits("1", 6);
+
+    async function accrueYield(amount: bigint) {
+      await mockToken.mint(await strategy.getAddress(), amount);
+      await strategy.setSimulatedYield(amount);
+    }
+
+    async function increaseTime(seconds: number) {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    beforeEach(async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+
+      await expect(vault.setHarvestTriggerParams(ethers.parseUnits("10", 6), 3600))
+        .to.emit(vault, "HarvestTriggerParamsChanged")
+        .withArgs(ethers.parseUnits("10", 6), 3600);
+    });
+
+    it("Should be false without pending yield", async function () {
+      expect(await vault.harvestTrigger(0)).to.equal(false);
+    });
+
+    it("Should be false below the minimum harvest amount", async function () {
+      await accrueYield(ethers.parseUnits("5", 6));
+      expect(await vault.harvestTrigger(gasCost)).to.equal(false);
+    });
+
+    it("Should be false when gas costs more than the pending yield", async function () {
+      await accrueYield(ethers.parseUnits("20", 6));
+      expect(await vault.harvestTrigger(ethers.parseUnits("25", 6))).to.equal(false);
+      expect(await vault.harvestTrigger(gasCost)).to.equal(true);
+    });
+
+    it("Should respect the minimum interval since the last harvest", async function () {
+      await accrueYield(ethers.parseUnits("20", 6));
+      await vault.harvest();
+      expect(await vault.lastHarvest()).to.be.greaterThan(0);
+
+      await accrueYield(ethers.parseUnits("20", 6));
+      expect(await vault.harvestTrigger(gasCost)).to.equal(false);
+
+      await increaseTime(3600);
+      expect(await vault.harvestTrigger(gasCost)).to.equal(true);
+    });
+
+    it("Should be false while paused", async function () {
+      await accrueYield(ethers.parseUnits("20", 6));
+      await vault.setPaused(true);
+      expect(await vault.harvestTrigger(gasCost)).to.equal(false);
+    });
+
+    it("Should revert params update from non-admins", async function () {
+      await expect(vault.connect(user1).setHarvestTriggerParams(0, 0))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+  });
+
   describe("TotalAssets", function () {
     it("Should return correct total assets", async function () {
       const amount = ethers.parseUnits("1000", 6);
@@ -375,7 +1544,7 @@ describe("Yield4GoodVault", function () {
       expect(await vault.totalAssets()).to.be.closeTo(amount, ethers.parseUnits("1", 6));
     });
 
-    it("Should include strategy assets", async function () {
+    it("Should exclude unharvested yield", async function () {
       const amount = ethers.parseUnits("1000", 6);
       
       await mockToken.connect(user1).approve(await vault.getAddress(), amount);
@@ -384,10 +1553,59 @@ describe("Yield4GoodVault", function () {
       const yieldAmount = ethers.parseUnits("50", 6);
       await strategy.setSimulatedYield(yieldAmount);
 
-      expect(await vault.totalAssets()).to.be.closeTo(
-        amount + yieldAmount,
-        ethers.parseUnits("1", 6)
-      );
+      expect(await vault.totalAssets()).to.equal(amount);
+      expect(await vault.pendingDonation()).to.equal(yieldAmount);
+    });
+
+    it("Should clear pending donation on harvest", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+
+      const yieldAmount = ethers.parseUnits("50", 6);
+      await mockToken.mint(await strategy.getAddress(), yieldAmount);
+      await strategy.setSimulatedYield(yieldAmount);
+      await vault.harvest();
+
+      expect(await vault.pendingDonation()).to.equal(0);
+      expect(await vault.totalAssets()).to.equal(amount);
+    });
+
+    it("Should keep share price flat while yield accrues", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+
+      const oneShare = 10n ** (await vault.decimals());
+      const priceBefore = await vault.convertToAssets(oneShare);
+
+      await mockToken.mint(await strategy.getAddress(), ethers.parseUnits("50", 6));
+      await strategy.setSimulatedYield(ethers.parseUnits("50", 6));
+
+      expect(await vault.convertToAssets(oneShare)).to.equal(priceBefore);
+    });
+
+    it("Should not let a redeem before harvest extract yield", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+      await mockToken.connect(user2).approve(await vault.getAddress(), amount);
+      await vault.connect(user2).deposit(amount, user2.address);
+
+      const yieldAmount = ethers.parseUnits("100", 6);
+      await mockToken.mint(await strategy.getAddress(), yieldAmount);
+      await strategy.setSimulatedYield(yieldAmount);
+
+      const shares = await vault.balanceOf(user1.address);
+      expect(await vault.previewRedeem(shares)).to.equal(amount);
+
+      const balanceBefore = await mockToken.balanceOf(user1.address);
+      await vault.connect(user1).redeem(shares, user1.address, user1.address);
+      expect(await mockToken.balanceOf(user1.address)).to.equal(balanceBefore + amount);
+
+      await vault.harvest();
+      expect(await mockToken.balanceOf(beneficiary.address)).to.equal(yieldAmount);
+      expect(await vault.convertToAssets(await vault.balanceOf(user2.address))).to.equal(amount);
     });
   });
 });
@@ -0,0 +1,295 @@
+import { expect } from "chai";
+import { ethers, ignition, upgrades } from "hardhat";
+import {
+  Yield4GoodVaultUpgradeable,
+  MockStrategy,
+  DonationRouter,
+  MockERC20,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import Yield4GoodVaultProxyModule from "../ignition/modules/Yield4GoodVaultProxy";
+import QueueVaultUpgradeModule from "../ignition/modules/QueueVaultUpgrade";
+import ExecuteVaultUpgradeModule from "../ignition/modules/ExecuteVaultUpgrade";
+
+const TIMELOCK_DELAY = 2 * 24 * 60 * 60;
+const UPGRADE_CHANGE = 4;
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+describe("Yield4GoodVaultUpgradeable", function () {
+  let vault: Yield4GoodVaultUpgradeable;
+  let implementation: Yield4GoodVaultUpgradeable;
+  let strategy: MockStrategy;
+  let router: DonationRouter;
+  let mockToken: MockERC20;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  async function implementationAddress() {
+    const slot = await ethers.provider.getStorage(await vault.getAddress(), IMPLEMENTATION_SLOT);
+    return ethers.getAddress(ethers.dataSlice(slot, 12));
+  }
+
+  async function deployImplementation() {
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVaultUpgradeable");
+    return VaultFactory.deploy();
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2, beneficiary] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+
+    const deployment = await ignition.deploy(Yield4GoodVaultProxyModule, {
+      parameters: {
+        $global: { asset: await mockToken.getAddress() },
+        Yield4GoodVaultProxy: { beneficiary: beneficiary.address },
+      },
+    });
+    vault = await ethers.getContractAt("Yield4GoodVaultUpgradeable", await deployment.vault.getAddress());
+    implementation = await ethers.getContractAt(
+      "Yield4GoodVaultUpgradeable",
+      await deployment.implementation.getAddress()
+    );
+    strategy = await ethers.getContractAt("MockStrategy", await deployment.strategy.getAddress());
+    router = await ethers.getContractAt("DonationRouter", await deployment.router.getAddress());
+
+    await mockToken.mint(user1.address, ethers.parseUnits("10000", 6));
+    await mockToken.mint(user2.address, ethers.parseUnits("10000", 6));
+  });
+
+  describe("Deployment", function () {
+    it("Should initialize the proxy", async function () {
+      expect(await vault.asset()).to.equal(await mockToken.getAddress());
+      expect(await vault.name()).to.equal("Yield4Good Vault");
+      expect(await vault.symbol()).to.equal("Y4G");
+      expect(await vault.decimals()).to.equal(6);
+      expect(await vault.donationRouter()).to.equal(await router.getAddress());
+      expect(await vault.beneficiary()).to.equal(beneficiary.address);
+      expect(await vault.timelockDelay()).to.equal(TIMELOCK_DELAY);
+      expect(await vault.hasRole(await vault.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await vault.getStrategies()).to.deep.equal([await strategy.getAddress()]);
+      expect(await strategy.owner()).to.equal(await vault.getAddress());
+      expect(await implementationAddress()).to.equal(await implementation.getAddress());
+    });
+
+    it("Should lock the implementation", async function () {
+      await expect(
+        implementation.initialize(
+          await mockToken.getAddress(),
+          await strategy.getAddress(),
+          await router.getAddress(),
+          beneficiary.address,
+          "Yield4Good Vault",
+          "Y4G",
+          owner.address
+        )
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+
+    it("Should not initialize the proxy twice", async function () {
+      await expect(
+        vault.initialize(
+          await mockToken.getAddress(),
+          await strategy.getAddress(),
+          await router.getAddress(),
+          user1.address,
+          "Yield4Good Vault",
+          "Y4G",
+          user1.address
+        )
+      ).to.be.revertedWithCustomError(vault, "InvalidInitialization");
+    });
+  });
+
+  describe("Upgrade Timelock", function () {
+    let newImplementation: Yield4GoodVaultUpgradeable;
+
+    beforeEach(async function () {
+      newImplementation = await deployImplementation();
+    });
+
+    it("Should queue an upgrade", async function () {
+      const newAddress = await newImplementation.getAddress();
+      const eta = (await time.latest()) + 1 + TIMELOCK_DELAY;
+      await expect(vault.queueUpgrade(newAddress))
+        .to.emit(vault, "ChangeQueued")
+        .withArgs(
+          UPGRADE_CHANGE,
+          await implementation.getAddress(),
+          newAddress,
+          0,
+          eta
+        );
+    });
+
+    it("Should revert when the upgrade is not queued", async function () {
+      await expect(
+        vault.upgradeToAndCall(await newImplementation.getAddress(), "0x")
+      ).to.be.revertedWith("Yield4GoodVault: change not queued");
+    });
+
+    it("Should revert before the timelock expires", async function () {
+      await vault.queueUpgrade(await newImplementation.getAddress());
+      await expect(
+        vault.upgradeToAndCall(await newImplementation.getAddress(), "0x")
+      ).to.be.revertedWith("Yield4GoodVault: timelock not expired");
+    });
+
+    it("Should revert for a different implementation", async function () {
+      const other = await deployImplementation();
+      await vault.queueUpgrade(await newImplementation.getAddress());
+      await time.increase(TIMELOCK_DELAY);
+      await expect(
+        vault.upgradeToAndCall(await other.getAddress(), "0x")
+      ).to.be.revertedWith("Yield4GoodVaultUpgradeable: implementation not queued");
+    });
+
+    it("Should only allow the admin to queue and upgrade", async function () {
+      const role = await vault.DEFAULT_ADMIN_ROLE();
+      await expect(vault.connect(user1).queueUpgrade(await newImplementation.getAddress()))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, role);
+
+      await vault.queueUpgrade(await newImplementation.getAddress());
+      await time.increase(TIMELOCK_DELAY);
+      await expect(vault.connect(user1).upgradeToAndCall(await newImplementation.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, role);
+    });
+
+    it("Should let the guardian cancel a queued upgrade", async function () {
+      await vault.grantRole(await vault.GUARDIAN_ROLE(), user2.address);
+      await vault.queueUpgrade(await newImplementation.getAddress());
+      await vault.connect(user2).cancelChange(UPGRADE_CHANGE);
+      await time.increase(TIMELOCK_DELAY);
+      await expect(
+        vault.upgradeToAndCall(await newImplementation.getAddress(), "0x")
+      ).to.be.revertedWith("Yield4GoodVault: change not queued");
+    });
+
+    it("Should only upgrade through the proxy", async function () {
+      await expect(
+        implementation.upgradeToAndCall(await newImplementation.getAddress(), "0x")
+      ).to.be.revertedWithCustomError(implementation, "UUPSUnauthorizedCallContext");
+    });
+  });
+
+  describe("State Across Upgrades", function () {
+    async function snapshot() {
+      return {
+        totalSupply: await vault.totalSupply(),
+        totalAssets: await vault.totalAssets(),
+        balance1: await vault.balanceOf(user1.address),
+        balance2: await vault.balanceOf(user2.address),
+        allowance: await vault.allowance(user1.address, user2.address),
+        name: await vault.name(),
+        symbol: await vault.symbol(),
+        decimals: await vault.decimals(),
+        asset: await vault.asset(),
+        strategies: await vault.getStrategies(),
+        withdrawalQueue: await vault.getWithdrawalQueue(),
+        strategyParams: await vault.strategyParams(await strategy.getAddress()),
+        totalTargetBps: await vault.totalTargetBps(),
+        totalDebt: await vault.totalDebt(),
+        donationRouter: await vault.donationRouter(),
+        beneficiary: await vault.beneficiary(),
+        paused: await vault.paused(),
+        totalDonated: await vault.totalDonated(),
+        minHarvestAmount: await vault.minHarvestAmount(),
+        lastHarvest: await vault.lastHarvest(),
+        timelockDelay: await vault.timelockDelay(),
+        pendingBeneficiary: await vault.pendingChanges(0),
+        depositCap: await vault.depositCap(),
+        accountDepositCap: await vault.accountDepositCap(),
+        donatedBy1: await vault.donatedBy(user1.address),
+        donatedBy2: await vault.donatedBy(user2.address),
+        keeper: await vault.hasRole(await vault.KEEPER_ROLE(), user2.address),
+      };
+    }
+
+    it("Should keep balances, configuration and pending changes", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await mockToken.connect(user1).approve(await vault.getAddress(), amount);
+      await vault.connect(user1).deposit(amount, user1.address);
+      await mockToken.connect(user2).approve(await vault.getAddress(), amount);
+      await vault.connect(user2).deposit(amount / 2n, user2.address);
+      await vault.connect(user1).approve(user2.address, 123n);
+
+      const yieldAmount = ethers.parseUnits("50", 6);
+      await mockToken.mint(await strategy.getAddress(), yieldAmount);
+      await strategy.setSimulatedYield(yieldAmount);
+      await vault.harvest();
+
+      await vault.grantRole(await vault.KEEPER_ROLE(), user2.address);
+      await vault.setDepositCap(ethers.parseUnits("5000", 6));
+      await vault.setAccountDepositCap(ethers.parseUnits("2000", 6));
+      await vault.setHarvestTriggerParams(ethers.parseUnits("10", 6), 3600);
+      await vault.queueBeneficiary(user1.address);
+
+      const newImplementation = await deployImplementation();
+      await vault.queueUpgrade(await newImplementation.getAddress());
+      await time.increase(TIMELOCK_DELAY);
+
+      const before = await snapshot();
+      await expect(vault.upgradeToAndCall(await newImplementation.getAddress(), "0x"))
+        .to.emit(vault, "Upgraded")
+        .withArgs(await newImplementation.getAddress());
+
+      expect(await implementationAddress()).to.equal(await newImplementation.getAddress());
+      expect(await snapshot()).to.deep.equal(before);
+      expect((await vault.pendingChanges(UPGRADE_CHANGE)).eta).to.equal(0);
+
+      // The upgraded vault keeps working on the old state
+      await vault.executeBeneficiary();
+      expect(await vault.beneficiary()).to.equal(user1.address);
+      await vault.connect(user2).withdraw(amount / 4n, user2.address, user2.address);
+      expect(await mockToken.balanceOf(user2.address)).to.equal(
+        ethers.parseUnits("10000", 6) - amount / 2n + amount / 4n
+      );
+    });
+  });
+
+  describe("Upgrade Safety", function () {
+    it("Should pass the OpenZeppelin upgrade checks", async function () {
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVaultUpgradeable");
+      await upgrades.validateImplementation(VaultFactory, { kind: "uups" });
+    });
+
+    it("Should validate a new implementation against the deployed proxy", async function () {
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVaultUpgradeable");
+      await upgrades.forceImport(await vault.getAddress(), VaultFactory, { kind: "uups" });
+      await upgrades.validateUpgrade(await vault.getAddress(), VaultFactory, { kind: "uups" });
+    });
+
+    it("Should reject an implementation with a clashing layout", async function () {
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVaultUpgradeable");
+      const ClashFactory = await ethers.getContractFactory("MockVaultStorageClash");
+      await expect(
+        upgrades.validateUpgrade(VaultFactory, ClashFactory, { kind: "uups" })
+      ).to.be.rejectedWith(/New storage layout is incompatible/);
+    });
+  });
+
+  describe("Ignition Modules", function () {
+    it("Should queue and execute an upgrade", async function () {
+      const proxy = await vault.getAddress();
+      const queued = await ignition.deploy(QueueVaultUpgradeModule, {
+        parameters: { QueueVaultUpgrade: { proxy } },
+      });
+      const newImplementation = await queued.implementation.getAddress();
+      expect((await vault.pendingChanges(UPGRADE_CHANGE)).newValue).to.equal(newImplementation);
+
+      await time.increase(TIMELOCK_DELAY);
+      await ignition.deploy(ExecuteVaultUpgradeModule, {
+        parameters: { ExecuteVaultUpgrade: { proxy, implementation: newImplementation } },
+      });
+      expect(await implementationAddress()).to.equal(newImplementation);
+    });
+  });
+});
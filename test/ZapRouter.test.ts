@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  ZapRouter,
+  MockSwapAdapter,
+  Yield4GoodVault,
+  MockWETH,
+  MockERC20,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("ZapRouter", function () {
+  let zapRouter: ZapRouter;
+  let adapter: MockSwapAdapter;
+  let vault: Yield4GoodVault;
+  let usdc: MockERC20;
+  let dai: MockERC20;
+  let weth: MockWETH;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  // 1 DAI -> 1 USDC and 1 WETH -> 2000 USDC, scaled by RATE_PRECISION
+  const DAI_RATE = ethers.parseUnits("1", 6);
+  const WETH_RATE = ethers.parseUnits("2000", 6);
+
+  beforeEach(async function () {
+    [owner, user1, user2, beneficiary] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    usdc = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+    dai = await ERC20Factory.deploy("Mock DAI", "DAI", 18);
+
+    const WETHFactory = await ethers.getContractFactory("MockWETH");
+    weth = await WETHFactory.deploy();
+
+    const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+    const router = await DonationRouterFactory.deploy();
+
+    const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+    const strategy = await MockStrategyFactory.deploy(await usdc.getAddress());
+
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+    vault = await VaultFactory.deploy(
+      await usdc.getAddress(),
+      await strategy.getAddress(),
+      await router.getAddress(),
+      beneficiary.address,
+      "Yield4Good Vault",
+      "Y4G"
+    );
+    await vault.waitForDeployment();
+    await strategy.transferOwnership(await vault.getAddress());
+
+    const AdapterFactory = await ethers.getContractFactory("MockSwapAdapter");
+    adapter = await AdapterFactory.deploy();
+    await adapter.setRate(await dai.getAddress(), await usdc.getAddress(), DAI_RATE);
+    await adapter.setRate(await weth.getAddress(), await usdc.getAddress(), WETH_RATE);
+    await usdc.mint(await adapter.getAddress(), ethers.parseUnits("1000000", 6));
+
+    const ZapRouterFactory = await ethers.getContractFactory("ZapRouter");
+    zapRouter = await ZapRouterFactory.deploy(await vault.getAddress(), await weth.getAddress());
+    await zapRouter.waitForDeployment();
+    await zapRouter.setAdapter(await adapter.getAddress(), true);
+
+    await dai.mint(user1.address, ethers.parseEther("10000"));
+  });
+
+  describe("Deployment", function () {
+    it("Should read the asset from the vault", async function () {
+      expect(await zapRouter.vault()).to.equal(await vault.getAddress());
+      expect(await zapRouter.asset()).to.equal(await usdc.getAddress());
+      expect(await zapRouter.weth()).to.equal(await weth.getAddress());
+      expect(await zapRouter.owner()).to.equal(owner.address);
+    });
+
+    it("Should revert with a zero WETH address", async function () {
+      const ZapRouterFactory = await ethers.getContractFactory("ZapRouter");
+      await expect(
+        ZapRouterFactory.deploy(await vault.getAddress(), ethers.ZeroAddress)
+      ).to.be.revertedWith("ZapRouter: zero WETH address");
+    });
+  });
+
+  describe("Adapters", function () {
+    it("Should let only the owner approve adapters", async function () {
+      await expect(
+        zapRouter.connect(user1).setAdapter(user1.address, true)
+      ).to.be.revertedWithCustomError(zapRouter, "OwnableUnauthorizedAccount");
+
+      await expect(zapRouter.setAdapter(await adapter.getAddress(), false))
+        .to.emit(zapRouter, "AdapterSet")
+        .withArgs(await adapter.getAddress(), false);
+      expect(await zapRouter.approvedAdapters(await adapter.getAddress())).to.equal(false);
+    });
+
+    it("Should revert for an unapproved adapter", async function () {
+      const amount = ethers.parseEther("100");
+      await dai.connect(user1).approve(await zapRouter.getAddress(), amount);
+      await zapRouter.setAdapter(await adapter.getAddress(), false);
+
+      await expect(
+        zapRouter
+          .connect(user1)
+          .zap(await dai.getAddress(), amount, await adapter.getAddress(), 0, user1.address)
+      ).to.be.revertedWith("ZapRouter: adapter not approved");
+    });
+  });
+
+  describe("Zap", function () {
+    it("Should swap the input and deposit for the receiver", async function () {
+      const amount = ethers.parseEther("100");
+      const assets = ethers.parseUnits("100", 6);
+      await dai.connect(user1).approve(await zapRouter.getAddress(), amount);
+
+      await expect(
+        zapRouter
+          .connect(user1)
+          .zap(await dai.getAddress(), amount, await adapter.getAddress(), assets, user2.address)
+      )
+        .to.emit(zapRouter, "Zap")
+        .withArgs(user1.address, user2.address, await dai.getAddress(), amount, assets, assets)
+        .and.to.emit(vault, "Deposit")
+        .withArgs(await zapRouter.getAddress(), user2.address, assets, assets);
+
+      expect(await vault.balanceOf(user2.address)).to.equal(assets);
+      expect(await vault.totalAssets()).to.equal(assets);
+      expect(await dai.balanceOf(user1.address)).to.equal(ethers.parseEther("9900"));
+      expect(await dai.balanceOf(await zapRouter.getAddress())).to.equal(0);
+      expect(await usdc.balanceOf(await zapRouter.getAddress())).to.equal(0);
+      expect(await dai.allowance(await zapRouter.getAddress(), await adapter.getAddress())).to.equal(0);
+    });
+
+    it("Should revert when the swap returns less than the minimum", async function () {
+      const amount = ethers.parseEther("100");
+      await dai.connect(user1).approve(await zapRouter.getAddress(), amount);
+      // Price moves against the user after they quoted 100 USDC
+      await adapter.setRate(await dai.getAddress(), await usdc.getAddress(), ethers.parseUnits("0.98", 6));
+
+      await expect(
+        zapRouter
+          .connect(user1)
+          .zap(
+            await dai.getAddress(),
+            amount,
+            await adapter.getAddress(),
+            ethers.parseUnits("99", 6),
+            user1.address
+          )
+      ).to.be.revertedWith("ZapRouter: insufficient output");
+    });
+
+    it("Should revert for zero amounts and the vault asset itself", async function () {
+      await expect(
+        zapRouter
+          .connect(user1)
+          .zap(await dai.getAddress(), 0, await adapter.getAddress(), 0, user1.address)
+      ).to.be.revertedWith("ZapRouter: zero amount");
+
+      const amount = ethers.parseUnits("100", 6);
+      await usdc.mint(user1.address, amount);
+      await usdc.connect(user1).approve(await zapRouter.getAddress(), amount);
+      await expect(
+        zapRouter
+          .connect(user1)
+          .zap(await usdc.getAddress(), amount, await adapter.getAddress(), 0, user1.address)
+      ).to.be.revertedWith("ZapRouter: input is the vault asset");
+    });
+
+    it("Should pass through vault deposit checks", async function () {
+      const amount = ethers.parseEther("100");
+      await dai.connect(user1).approve(await zapRouter.getAddress(), amount);
+      await vault.setPaused(true);
+
+      await expect(
+        zapRouter
+          .connect(user1)
+          .zap(await dai.getAddress(), amount, await adapter.getAddress(), 0, user1.address)
+      ).to.be.revertedWith("Yield4GoodVault: paused");
+    });
+  });
+
+  describe("Zap ETH", function () {
+    it("Should wrap ETH, swap and deposit", async function () {
+      const value = ethers.parseEther("0.5");
+      const assets = ethers.parseUnits("1000", 6);
+
+      await expect(
+        zapRouter.connect(user1).zapETH(await adapter.getAddress(), assets, user1.address, { value })
+      )
+        .to.emit(zapRouter, "Zap")
+        .withArgs(user1.address, user1.address, await weth.getAddress(), value, assets, assets);
+
+      expect(await vault.balanceOf(user1.address)).to.equal(assets);
+      expect(await weth.balanceOf(await adapter.getAddress())).to.equal(value);
+      expect(await ethers.provider.getBalance(await zapRouter.getAddress())).to.equal(0);
+    });
+
+    it("Should revert with zero value", async function () {
+      await expect(
+        zapRouter.connect(user1).zapETH(await adapter.getAddress(), 0, user1.address, { value: 0 })
+      ).to.be.revertedWith("ZapRouter: zero amount");
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import hre, { ethers, ignition } from "hardhat";
+import { MockERC20 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import Yield4GoodVaultModule from "../ignition/modules/Yield4GoodVault";
+import ETHGatewayModule from "../ignition/modules/ETHGateway";
+import Yield4GoodFactoryModule from "../ignition/modules/Yield4GoodFactory";
+import DonorProofNFTModule from "../ignition/modules/DonorProofNFT";
+import { getDeployedAddress, getDeployment, readManifest, recordDeployment } from "../scripts/deployments";
+
+describe("Deployment", function () {
+  let mockToken: MockERC20;
+  let owner: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, , , beneficiary] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+  });
+
+  describe("Ignition Modules", function () {
+    it("Should deploy the vault and hand it the strategy", async function () {
+      const deployed = await ignition.deploy(Yield4GoodVaultModule, {
+        parameters: {
+          $global: { asset: await mockToken.getAddress() },
+          Yield4GoodVault: { beneficiary: beneficiary.address },
+        },
+      });
+      const vault = await ethers.getContractAt("Yield4GoodVault", await deployed.vault.getAddress());
+      const strategy = await ethers.getContractAt("MockStrategy", await deployed.strategy.getAddress());
+
+      expect(await vault.asset()).to.equal(await mockToken.getAddress());
+      expect(await strategy.asset()).to.equal(await mockToken.getAddress());
+      expect(await vault.getStrategies()).to.deep.equal([await strategy.getAddress()]);
+      expect(await vault.donationRouter()).to.equal(await deployed.router.getAddress());
+      expect(await vault.beneficiary()).to.equal(beneficiary.address);
+      expect(await vault.name()).to.equal("Yield4Good Vault");
+      expect(await vault.symbol()).to.equal("Y4G");
+      expect(await vault.hasRole(await vault.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await strategy.owner()).to.equal(await vault.getAddress());
+    });
+
+    it("Should deploy a gateway for a WETH vault", async function () {
+      const WETHFactory = await ethers.getContractFactory("MockWETH");
+      const weth = await WETHFactory.deploy();
+
+      const deployed = await ignition.deploy(ETHGatewayModule, {
+        parameters: {
+          $global: { asset: await weth.getAddress() },
+          Yield4GoodVault: { beneficiary: beneficiary.address, name: "Yield4Good WETH", symbol: "Y4G-WETH" },
+          ETHGateway: { weth: await weth.getAddress() },
+        },
+      });
+      const gateway = await ethers.getContractAt("ETHGateway", await deployed.gateway.getAddress());
+      const vault = await ethers.getContractAt("Yield4GoodVault", await deployed.vault.getAddress());
+
+      expect(await gateway.vault()).to.equal(await vault.getAddress());
+      expect(await gateway.weth()).to.equal(await weth.getAddress());
+      expect(await vault.symbol()).to.equal("Y4G-WETH");
+    });
+
+    it("Should deploy the donor certificates for the vault", async function () {
+      const tiers = [ethers.parseUnits("10", 6), ethers.parseUnits("100", 6)];
+      const deployed = await ignition.deploy(DonorProofNFTModule, {
+        parameters: {
+          $global: { asset: await mockToken.getAddress() },
+          Yield4GoodVault: { beneficiary: beneficiary.address },
+          DonorProofNFT: { tiers },
+        },
+      });
+      const nft = await ethers.getContractAt("DonorProofNFT", await deployed.nft.getAddress());
+
+      expect(await nft.vault()).to.equal(await deployed.vault.getAddress());
+      expect(await nft.tierThresholds()).to.deep.equal(tiers);
+      expect(await nft.owner()).to.equal(owner.address);
+    });
+
+    it("Should deploy the factory and clone a first vault", async function () {
+      const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+      const deployed = await ignition.deploy(Yield4GoodFactoryModule, {
+        parameters: {
+          $global: { asset: await mockToken.getAddress() },
+          Yield4GoodFactory: {
+            beneficiary: beneficiary.address,
+            vaultCodeHash: ethers.keccak256(VaultFactory.bytecode),
+            causeName: "Clean Water",
+          },
+        },
+      });
+      const factory = await ethers.getContractAt("Yield4GoodFactory", await deployed.factory.getAddress());
+      const vault = await ethers.getContractAt("Yield4GoodVault", await deployed.vault.getAddress());
+      const strategy = await ethers.getContractAt("MockStrategy", await deployed.strategy.getAddress());
+
+      expect(await factory.getVaults()).to.deep.equal([await vault.getAddress()]);
+      expect((await factory.vaultInfo(await vault.getAddress())).causeName).to.equal("Clean Water");
+      expect(await factory.implementation()).to.equal(await deployed.implementation.getAddress());
+      expect(await factory.vaultCodeHash()).to.equal(ethers.keccak256(VaultFactory.bytecode));
+      expect(await vault.getStrategies()).to.deep.equal([await strategy.getAddress()]);
+      expect(await vault.donationRouter()).to.equal(await deployed.router.getAddress());
+      expect(await vault.beneficiary()).to.equal(beneficiary.address);
+      expect(await vault.hasRole(await vault.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await strategy.owner()).to.equal(await vault.getAddress());
+    });
+
+    it("Should have parameters for every live network", async function () {
+      const live = Object.keys(hre.config.networks).filter((name) => name !== "hardhat" && name !== "localhost");
+      expect(live).to.not.be.empty;
+      for (const network of live) {
+        const file = path.join(hre.config.paths.ignition, "parameters", `${network}.json`);
+        expect(fs.existsSync(file), file).to.be.true;
+        const parameters = JSON.parse(fs.readFileSync(file, "utf8"));
+        expect(ethers.isAddress(parameters.$global.asset), `${network} asset`).to.be.true;
+        expect(parameters.DonorProofNFT.tiers, `${network} tiers`).to.not.be.empty;
+        for (const moduleId of ["Yield4GoodVault", "Yield4GoodVaultProxy", "Yield4GoodFactory"]) {
+          expect(ethers.isAddress(parameters[moduleId].beneficiary), `${network} ${moduleId} beneficiary`).to.be.true;
+        }
+      }
+    });
+  });
+
+  describe("Manifest", function () {
+    let dir: string;
+    let file: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "y4g-manifest-"));
+      file = path.join(dir, "deployments.json");
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should read a missing manifest as empty", async function () {
+      expect(readManifest(file)).to.deep.equal({});
+    });
+
+    it("Should merge contracts per chain, keep the earliest block and keep other chains", async function () {
+      recordDeployment(11155111n, {
+        network: "sepolia",
+        deploymentBlock: 100,
+        contracts: { Yield4GoodVault: "0x0000000000000000000000000000000000000001" },
+      }, file);
+      recordDeployment(421614, {
+        network: "arbSepolia",
+        deploymentBlock: 7,
+        contracts: { Yield4GoodVault: "0x0000000000000000000000000000000000000007" },
+      }, file);
+      const entry = recordDeployment(11155111n, {
+        network: "sepolia",
+        deploymentBlock: 200,
+        contracts: { Yield4GoodFactory: "0x0000000000000000000000000000000000000002" },
+      }, file);
+
+      expect(entry).to.deep.equal({
+        network: "sepolia",
+        deploymentBlock: 100,
+        contracts: {
+          Yield4GoodVault: "0x0000000000000000000000000000000000000001",
+          Yield4GoodFactory: "0x0000000000000000000000000000000000000002",
+        },
+      });
+      expect(getDeployment(11155111n, file)).to.deep.equal(entry);
+      expect(getDeployedAddress(421614, "Yield4GoodVault", file)).to.equal(
+        "0x0000000000000000000000000000000000000007"
+      );
+    });
+
+    it("Should throw for an unknown chain or contract", async function () {
+      recordDeployment(1, { network: "mainnet", deploymentBlock: 0, contracts: {} }, file);
+
+      expect(() => getDeployment(5, file)).to.throw("No deployment recorded for chain 5");
+      expect(() => getDeployedAddress(1, "ETHGateway", file)).to.throw("No ETHGateway recorded for chain 1");
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { Yield4GoodVault, MockStrategy, DonationRouter, MockERC20 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { createState, loadState, saveState, IndexerState } from "../scripts/indexer/store";
+import { syncOnce } from "../scripts/indexer/sync";
+import {
+  createApiServer,
+  getAccountHistory,
+  getBeneficiaryTotals,
+  getTotals,
+} from "../scripts/indexer/api";
+
+describe("Indexer", function () {
+  let vault: Yield4GoodVault;
+  let strategy: MockStrategy;
+  let router: DonationRouter;
+  let mockToken: MockERC20;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+  let state: IndexerState;
+
+  const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+  async function deposit(user: SignerWithAddress, amount: bigint) {
+    await mockToken.connect(user).approve(await vault.getAddress(), amount);
+    await vault.connect(user).deposit(amount, user.address);
+  }
+
+  async function harvestYield(amount: bigint) {
+    await mockToken.mint(await strategy.getAddress(), amount);
+    await strategy.setSimulatedYield(amount);
+    await vault.harvest();
+  }
+
+  beforeEach(async function () {
+    [, user1, user2, beneficiary] = await ethers.getSigners();
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+
+    const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+    router = await DonationRouterFactory.deploy();
+
+    const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+    strategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+    vault = await VaultFactory.deploy(
+      await mockToken.getAddress(),
+      await strategy.getAddress(),
+      await router.getAddress(),
+      beneficiary.address,
+      "Yield4Good Vault",
+      "Y4G"
+    );
+    await strategy.transferOwnership(await vault.getAddress());
+
+    await mockToken.mint(user1.address, usdc("10000"));
+    await mockToken.mint(user2.address, usdc("10000"));
+
+    const deployment = await vault.deploymentTransaction()!.wait();
+    state = createState(await vault.getAddress(), deployment!.blockNumber);
+  });
+
+  describe("Sync", function () {
+    it("Should index deposits, withdrawals, harvests and donations", async function () {
+      await deposit(user1, usdc("1000"));
+      await deposit(user2, usdc("500"));
+      await harvestYield(usdc("30"));
+      await vault.connect(user1).withdraw(usdc("400"), user1.address, user1.address);
+
+      const result = await syncOnce(state, ethers.provider);
+
+      expect(result.added).to.equal(5);
+      expect(state.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(state.events.map((event) => event.type)).to.deep.equal([
+        "Deposit",
+        "Deposit",
+        "YieldDonated",
+        "Harvest",
+        "Withdraw",
+      ]);
+
+      const withdrawal = state.events[4];
+      const block = await ethers.provider.getBlock(withdrawal.blockNumber);
+      expect(withdrawal.account).to.equal(user1.address.toLowerCase());
+      expect(withdrawal.assets).to.equal(usdc("400").toString());
+      expect(withdrawal.timestamp).to.equal(block!.timestamp);
+    });
+
+    it("Should read in chunks and resume where it stopped", async function () {
+      await deposit(user1, usdc("1000"));
+      await syncOnce(state, ethers.provider, { chunkSize: 1 });
+      expect(state.events).to.have.length(1);
+
+      await harvestYield(usdc("10"));
+      const result = await syncOnce(state, ethers.provider, { chunkSize: 1 });
+
+      expect(result.added).to.equal(2);
+      expect(state.events).to.have.length(3);
+      expect((await syncOnce(state, ethers.provider)).added).to.equal(0);
+    });
+
+    it("Should ignore donations made through the router by other callers", async function () {
+      await mockToken.connect(user2).approve(await router.getAddress(), usdc("5"));
+      await router
+        .connect(user2)
+        .donate(await mockToken.getAddress(), beneficiary.address, usdc("5"));
+
+      await syncOnce(state, ethers.provider);
+
+      expect(state.events).to.have.length(0);
+    });
+
+    it("Should stay behind the head by the configured confirmations", async function () {
+      await deposit(user1, usdc("1000"));
+
+      await syncOnce(state, ethers.provider, { confirmations: 1 });
+      expect(state.events).to.have.length(0);
+
+      await ethers.provider.send("evm_mine", []);
+      await syncOnce(state, ethers.provider, { confirmations: 1 });
+      expect(state.events).to.have.length(1);
+    });
+
+    it("Should roll back events orphaned by a reorg", async function () {
+      await deposit(user1, usdc("1000"));
+      await syncOnce(state, ethers.provider);
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+      await deposit(user2, usdc("500"));
+      await syncOnce(state, ethers.provider);
+      expect(state.events).to.have.length(2);
+
+      // Replace the indexed blocks with a different fork of the same height and more
+      await ethers.provider.send("evm_revert", [snapshot]);
+      await harvestYield(usdc("20"));
+      await ethers.provider.send("evm_mine", []);
+
+      const logs: string[] = [];
+      const result = await syncOnce(state, ethers.provider, { log: (m) => logs.push(m) });
+
+      expect(result.reorgedTo).to.equal(state.events[0].blockNumber);
+      expect(logs[0]).to.contain("reorg: rolled back");
+      expect(state.events.map((event) => event.type)).to.deep.equal([
+        "Deposit",
+        "YieldDonated",
+        "Harvest",
+      ]);
+      expect(getAccountHistory(state, user2.address).events).to.have.length(0);
+    });
+  });
+
+  describe("Store", function () {
+    it("Should round-trip through the JSON file", async function () {
+      await deposit(user1, usdc("1000"));
+      await syncOnce(state, ethers.provider);
+
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+      const file = path.join(dir, "store.json");
+      try {
+        saveState(file, state);
+        expect(loadState(file, await vault.getAddress(), 0)).to.deep.equal(state);
+        expect(() => loadState(file, user1.address, 0)).to.throw("belongs to vault");
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Queries", function () {
+    beforeEach(async function () {
+      await deposit(user1, usdc("1000"));
+      await deposit(user2, usdc("3000"));
+      await harvestYield(usdc("40"));
+      await vault.connect(user2).withdraw(usdc("1000"), user2.address, user2.address);
+      await syncOnce(state, ethers.provider);
+    });
+
+    it("Should compute vault totals", async function () {
+      expect(getTotals(state)).to.deep.equal({
+        lastBlock: state.lastBlock,
+        totalDeposited: usdc("4000").toString(),
+        totalWithdrawn: usdc("1000").toString(),
+        totalHarvested: usdc("40").toString(),
+        totalDonated: usdc("40").toString(),
+        depositors: 2,
+        harvests: 1,
+      });
+    });
+
+    it("Should return per-account history", async function () {
+      const history = getAccountHistory(state, user2.address);
+
+      expect(history.deposited).to.equal(usdc("3000").toString());
+      expect(history.withdrawn).to.equal(usdc("1000").toString());
+      expect(history.events.map((event) => event.type)).to.deep.equal(["Deposit", "Withdraw"]);
+    });
+
+    it("Should total donations per beneficiary", async function () {
+      expect(getBeneficiaryTotals(state)).to.deep.equal([
+        {
+          beneficiary: beneficiary.address.toLowerCase(),
+          donated: usdc("40").toString(),
+          donations: 1,
+        },
+      ]);
+    });
+
+    it("Should serve the queries over HTTP", async function () {
+      const server = createApiServer(() => state);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const base = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+      try {
+        const totals = await (await fetch(`${base}/totals`)).json();
+        expect(totals.totalDeposited).to.equal(usdc("4000").toString());
+
+        const history = await (await fetch(`${base}/accounts/${user1.address}`)).json();
+        expect(history.deposited).to.equal(usdc("1000").toString());
+
+        const beneficiaries = await (await fetch(`${base}/beneficiaries`)).json();
+        expect(beneficiaries).to.have.length(1);
+
+        expect((await fetch(`${base}/accounts/not-an-address`)).status).to.equal(400);
+        expect((await fetch(`${base}/unknown`)).status).to.equal(404);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Yield4GoodVault, MockStrategy, DonationRouter, MockERC20 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { estimateHarvestCost, runKeeperTick } from "../scripts/keeper";
+
+describe("Keeper", function () {
+  let vault: Yield4GoodVault;
+  let strategy: MockStrategy;
+  let router: DonationRouter;
+  let mockToken: MockERC20;
+  let user: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+  let logs: string[];
+
+  const log = (message: string) => logs.push(message);
+
+  async function accrueYield(amount: bigint) {
+    await mockToken.mint(await strategy.getAddress(), amount);
+    await strategy.setSimulatedYield(amount);
+  }
+
+  beforeEach(async function () {
+    [, user, beneficiary] = await ethers.getSigners();
+    logs = [];
+
+    const ERC20Factory = await ethers.getContractFactory("MockERC20");
+    mockToken = await ERC20Factory.deploy("Mock USDC", "USDC", 6);
+
+    const DonationRouterFactory = await ethers.getContractFactory("DonationRouter");
+    router = await DonationRouterFactory.deploy();
+
+    const MockStrategyFactory = await ethers.getContractFactory("MockStrategy");
+    strategy = await MockStrategyFactory.deploy(await mockToken.getAddress());
+
+    const VaultFactory = await ethers.getContractFactory("Yield4GoodVault");
+    vault = await VaultFactory.deploy(
+      await mockToken.getAddress(),
+      await strategy.getAddress(),
+      await router.getAddress(),
+      beneficiary.address,
+      "Yield4Good Vault",
+      "Y4G"
+    );
+    await strategy.transferOwnership(await vault.getAddress());
+    await vault.setHarvestTriggerParams(ethers.parseUnits("10", 6), 3600);
+
+    const amount = ethers.parseUnits("1000", 6);
+    await mockToken.mint(user.address, amount);
+    await mockToken.connect(user).approve(await vault.getAddress(), amount);
+    await vault.connect(user).deposit(amount, user.address);
+  });
+
+  it("Should price the harvest gas in the vault asset", async function () {
+    const ethPrice = ethers.parseUnits("3000", 6);
+    const cost = await estimateHarvestCost(vault, ethPrice);
+
+    expect(cost).to.be.greaterThan(0);
+    expect(await estimateHarvestCost(vault, 0n)).to.equal(0);
+  });
+
+  it("Should skip and log when the trigger is false", async function () {
+    await accrueYield(ethers.parseUnits("5", 6));
+
+    const decision = await runKeeperTick(vault, 0n, log);
+
+    expect(decision.harvested).to.equal(false);
+    expect(decision.pending).to.equal(ethers.parseUnits("5", 6));
+    expect(await vault.totalDonated()).to.equal(0);
+    expect(logs).to.have.length(1);
+    expect(logs[0]).to.contain("skip: trigger false");
+  });
+
+  it("Should harvest when the trigger is true", async function () {
+    await accrueYield(ethers.parseUnits("20", 6));
+
+    const decision = await runKeeperTick(vault, 0n, log);
+
+    expect(decision.harvested).to.equal(true);
+    expect(decision.txHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(await vault.totalDonated()).to.equal(ethers.parseUnits("20", 6));
+    expect(logs[0]).to.contain("harvest: pending 20.0");
+  });
+
+  it("Should skip when the gas cost exceeds the pending yield", async function () {
+    await accrueYield(ethers.parseUnits("20", 6));
+
+    // Absurd ETH price so the harvest costs more than it donates
+    const decision = await runKeeperTick(vault, ethers.parseUnits("1000000000", 6), log);
+
+    expect(decision.harvested).to.equal(false);
+    expect(decision.gasCostInAsset).to.be.greaterThan(decision.pending);
+  });
+
+  it("Should wait out the cooldown between harvests", async function () {
+    await accrueYield(ethers.parseUnits("20", 6));
+    expect((await runKeeperTick(vault, 0n, log)).harvested).to.equal(true);
+
+    await accrueYield(ethers.parseUnits("20", 6));
+    expect((await runKeeperTick(vault, 0n, log)).harvested).to.equal(false);
+
+    await ethers.provider.send("evm_increaseTime", [3600]);
+    await ethers.provider.send("evm_mine", []);
+    expect((await runKeeperTick(vault, 0n, log)).harvested).to.equal(true);
+    expect(logs).to.have.length(3);
+  });
+
+  it("Should skip when harvest would revert", async function () {
+    await accrueYield(ethers.parseUnits("20", 6));
+    await vault.setPaused(true);
+
+    const decision = await runKeeperTick(vault, 0n, log);
+
+    expect(decision.harvested).to.equal(false);
+    expect(logs[0]).to.contain("skip: harvest would revert");
+  });
+});